@@ -7,6 +7,32 @@ declare namespace NodeJS {
         DATA_DIR: string;
         HOSTNAME: string;
         PORT?: string; // Optional, defaults to 3000
-        EVENTSUB_SECRET?: string; // Optional, for EventSub testing
+        EVENTSUB_SECRET?: string; // Optional, generated and persisted if not set
+        EVENTSUB_MAX_MESSAGE_AGE?: string; // Optional, seconds, defaults to 600
+        TWITCH_EVENTSUB_TRANSPORT?: 'webhook' | 'websocket'; // Optional, defaults to webhook
+        TWITCH_USER_REFRESH_TOKEN?: string; // Required for the websocket transport
+        TWITCH_EVENTSUB_WEBSOCKET_URL?: string; // Optional, overrides the EventSub WebSocket URL
+        ADMIN_API_TOKEN?: string; // Optional, enables the /api admin endpoints
+        LOG_LEVEL?: 'debug' | 'info' | 'warn' | 'error'; // Optional, defaults to info
+        METRICS_TOKEN?: string; // Optional, requires a bearer token for /metrics
+        ADMIN_DISCORD_WEBHOOK_URL?: string; // Optional, receives operator alerts
+        DISCORD_PUBLIC_KEY?: string; // Optional, enables the /interactions endpoint
+        DISCORD_APPLICATION_ID?: string; // Optional, used to register slash commands
+        DISCORD_BOT_TOKEN?: string; // Optional, used to register slash commands
+        DISCORD_GUILD_ID?: string; // Optional, registers slash commands to a single server
+        DISCORD_ADMIN_ROLE_IDS?: string; // Optional, comma separated role IDs allowed to run slash commands
+        UPDATE_DEBOUNCE_SECONDS?: string; // Optional, defaults to 10
+        UPDATE_HISTORY?: 'true' | 'false'; // Optional, adds a history field to live alerts
+        LIVE_COOLDOWN_SECONDS?: string; // Optional, defaults to 0 (disabled)
+        LIVE_COOLDOWN_MODE?: 'ignore' | 'refresh'; // Optional, defaults to refresh
+        YOUTUBE_API_KEY?: string; // Optional, enables YouTube Live alerts
+        YOUTUBE_WEBSUB_SECRET?: string; // Optional, generated and persisted if not set
+        YOUTUBE_API_BASE_URL?: string; // Optional, overrides the YouTube Data API URL
+        YOUTUBE_HUB_URL?: string; // Optional, overrides the WebSub hub URL
+        AUDIT_INTERVAL_MINUTES?: string; // Optional, defaults to 5, 0 disables the subscription audit
+        AUDIT_REPAIR?: 'true' | 'false'; // Optional, reconciles subscriptions when the audit finds problems
+        TWITCH_POLL_INTERVAL_SECONDS?: string; // Optional, enables polling Twitch for live changes
+        KICK_POLL_INTERVAL_SECONDS?: string; // Optional, enables polling Kick for live changes
+        OFFLINE_MESSAGE_MODE?: 'edit' | 'delete'; // Optional, defaults to edit
     }
 }
\ No newline at end of file
@@ -14,12 +14,14 @@ interface KickChannel {
   channel_description: string;
   slug: string;
   stream_title: string;
+  banner_picture?: string;
   stream: KickStream;
 }
 
 interface KickStream {
   is_live: boolean;
   thumbnail: string;
+  start_time?: string;
 }
 
 interface KickLivestreamStatusUpdateEvent {
@@ -31,4 +33,43 @@ interface KickLivestreamStatusUpdateEvent {
   };
   is_live: boolean;
   title: string;
+  started_at?: string;
+  ended_at?: string | null;
+}
+
+interface KickLivestreamMetadataUpdatedEvent {
+  broadcaster: {
+    user_id: number;
+    username: string;
+    profile_picture: string;
+    channel_slug: string;
+  };
+  metadata: {
+    title: string;
+    language: string;
+    has_mature_content: boolean;
+    category: {
+      id: number;
+      name: string;
+      thumbnail: string;
+    };
+  };
+}
+
+interface KickEventSubscription {
+  id: string;
+  app_id: string;
+  broadcaster_user_id: number;
+  event: string;
+  version: number;
+  method: string;
+  created_at: string;
+  updated_at: string;
+}
+
+interface KickSubscriptionResult {
+  name: string;
+  version: number;
+  subscription_id?: string;
+  error?: string;
 }
\ No newline at end of file
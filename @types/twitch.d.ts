@@ -35,9 +35,32 @@ interface EventSubSubscription {
     version: string;
     condition: Record<string, string>;
     created_at: string;
-    transport: {
-        method: 'webhook';
-        callback: string;
-    };
+    transport: EventSubTransport;
     cost: number;
+}
+
+type EventSubTransport =
+    | { method: 'webhook'; callback: string }
+    | { method: 'websocket'; session_id: string; connected_at?: string; disconnected_at?: string };
+
+interface EventSubWebSocketSession {
+    id: string;
+    status: string;
+    keepalive_timeout_seconds: number | null;
+    reconnect_url: string | null;
+    connected_at: string;
+}
+
+interface EventSubWebSocketMessage {
+    metadata: {
+        message_id: string;
+        message_type: 'session_welcome' | 'session_keepalive' | 'session_reconnect' | 'notification' | 'revocation';
+        message_timestamp: string;
+        subscription_type?: string;
+    };
+    payload: {
+        session?: EventSubWebSocketSession;
+        subscription?: EventSubSubscription;
+        event?: Record<string, unknown>;
+    };
 }
\ No newline at end of file
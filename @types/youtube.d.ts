@@ -0,0 +1,41 @@
+interface YouTubeThumbnail {
+  url: string;
+  width?: number;
+  height?: number;
+}
+
+interface YouTubeChannel {
+  id: string;
+  snippet: {
+    title: string;
+    customUrl?: string;
+    thumbnails: Record<string, YouTubeThumbnail>;
+  };
+  brandingSettings?: {
+    image?: {
+      bannerExternalUrl?: string;
+    };
+  };
+}
+
+interface YouTubeVideo {
+  id: string;
+  snippet: {
+    channelId: string;
+    channelTitle: string;
+    title: string;
+    categoryId: string;
+    liveBroadcastContent: 'live' | 'upcoming' | 'none';
+    thumbnails: Record<string, YouTubeThumbnail>;
+  };
+  liveStreamingDetails?: {
+    actualStartTime?: string;
+    actualEndTime?: string;
+    scheduledStartTime?: string;
+  };
+}
+
+interface YouTubeFeedEntry {
+  videoId: string;
+  channelId: string;
+}
@@ -29,6 +29,7 @@ app.post('/api/dispatch/twitch', async (req, res) => {
     const payload = createTwitchLivestreamPayload(broadcasterId);
 
     if (!isLive) {
+      payload.subscription.type = "stream.offline";
       payload.event.type = "offline";
     }
 
@@ -1,123 +1,69 @@
 import dotenv from 'dotenv';
 import path from 'path';
+import { createLogger } from './functions/logger.js';
+
+const log = createLogger('App');
 
 // -- SETUP ENVIRONMENT VARIABLES --
 if (process.env.NODE_ENV === 'development') {
   dotenv.config({ path: path.resolve(process.cwd(), '.env.dev'), quiet: true });
-  console.log('Using environment file: .env.dev');
+  log.info('Using environment file: .env.dev');
 } else {
   dotenv.config({ quiet: true });
 }
-console.log('Starting application...');
+log.info('Starting application...');
 
 // -- START SERVER --
-import fs from 'fs';
-import { TwitchApiClient } from './functions/auth/twitch/auth.js';
 import { createServer } from './functions/server.js';
-import { createTwitchOnlineSubscription, deleteAllTwitchSubscriptions, listTwitchSubscriptions } from './functions/auth/twitch/subscriptions.js';
-import { createKickOnlineSubscription, deleteAllKickSubscriptions, listKickSubscriptions } from './functions/auth/kick/subscriptions.js';
-import { KickApiClient } from './functions/auth/kick/auth.js';
-
-// Initialize Twitch API client
-const twitchClient = await TwitchApiClient.getInstance();
-const kickClient = await KickApiClient.getInstance();
+import { getPlatforms } from './functions/platforms/index.js';
+import { processOutbox } from './functions/outbox.js';
+import { loadChannelsConfig, setActiveConfig } from './functions/channels.js';
+import type { ChannelsConfig } from './functions/channels.js';
+import { reconcileSubscriptions } from './functions/reconcile.js';
+import { startSubscriptionAudit } from './functions/audit.js';
+import { startPolling } from './functions/polling.js';
+import { watchChannels } from './functions/reload.js';
+
+// Initialize API clients
+for (const platform of getPlatforms()) {
+  await platform.initialize();
+}
 
 // Start Express server
 const server = createServer();
 server.listen(3000, () => {
   const serverUrl = process.env.NODE_ENV === 'development' ? `http://${process.env.HOSTNAME || 'localhost'}:${process.env.PORT || 3000}` : `https://${process.env.HOSTNAME}`;
-  console.log(`Server is running on ${serverUrl}`);
+  log.info(`Server is running on ${serverUrl}`);
 });
 
-interface ChannelsConfig {
-  twitch?: string[];
-  kick?: string[];
-}
-let channels: ChannelsConfig = { twitch: [], kick: [] };
+let channels: ChannelsConfig = { twitch: [], kick: [], youtube: [] };
 
 if (process.env.NODE_ENV !== 'development') {
 
-  // Clear existing subscriptions to avoid duplicates
-  try {
-    const count = await deleteAllTwitchSubscriptions();
-    console.log(`Deleted ${count} existing Twitch subscriptions`);
-  } catch (err: any) {
-    console.warn(`Failed to delete existing Twitch subscriptions: ${err.message}`);
-  }
-
-  try {
-    const count = await deleteAllKickSubscriptions();
-    console.log(`Deleted ${count} existing Kick subscriptions`);
-  } catch (err: any) {
-    console.warn(`Failed to delete existing Kick subscriptions: ${err.message}`);
-  }
-
   // Load channels from configuration file
-  const dataDir = process.env.DATA_DIR || './data';
-  const channelsPath = path.resolve(process.cwd(), dataDir, 'channels.json');
-  if (!fs.existsSync(channelsPath)) {
-    console.error(`Channels file not found at ${channelsPath}`);
+  try {
+    channels = loadChannelsConfig();
+  } catch (err) {
+    log.error((err as Error).message);
     process.exit(1);
   }
-  channels = JSON.parse(fs.readFileSync(channelsPath, 'utf-8'));
+  setActiveConfig(channels);
 
-  // Create subscriptions for each Twitch channel
-  if (channels.twitch) {
-    for (const channel of channels.twitch) {
-      const userResult = await twitchClient.getUserFromName(channel);
-      const user = Array.isArray(userResult.data) ? userResult.data[0] : userResult.data;
-      if (!user) {
-        console.error(`[Twitch] User not found: ${channel}`);
-        continue;
-      }
-      await createTwitchOnlineSubscription(user.id);
-      console.log(`[Twitch] Created subscription for ${channel}`);
-    }
-  }
+  // Bring existing subscriptions in line with the configured channels
+  await reconcileSubscriptions(channels);
+  getPlatforms().forEach(platform => platform.start?.());
 
-  // Create subscriptions for each Kick channel
-  if (channels.kick) {
-    for (const channel of channels.kick) {
-      const channelData = await kickClient.getChannel(channel);
-      const userId = channelData?.broadcaster_user_id;
-      if (!userId) {
-        console.error(`[Kick] User not found: ${channel}`);
-        continue;
-      }
-      await createKickOnlineSubscription(userId);
-      console.log(`[Kick] Created subscription for ${channel} (ID: ${userId})`);
-    }
-  }
+  // Catch subscriptions that fail or go missing between restarts
+  startSubscriptionAudit();
 
-  // List current subscriptions after a delay to ensure they are set up
-  setTimeout(async () => {
-    try {
-      const subs = await listTwitchSubscriptions();
-      console.log('Current Twitch subscriptions:', subs.length);
-      const expectedTwitchSubs = channels.twitch?.length || 0;
-      if (subs.length < expectedTwitchSubs && process.env.NODE_ENV !== 'development') {
-        console.warn('Warning: Some Twitch subscriptions may not have been created successfully.');
-      }
-    } catch (error: any) {
-      console.warn('Could not list Twitch subscriptions:', error.message);
-    }
+  // Catch live changes whose webhooks never arrive
+  startPolling();
 
-    try {
-      const kickSubs = await listKickSubscriptions();
-      console.log('Current Kick subscriptions:', kickSubs.length);
-      const expectedKickSubs = channels.kick?.length || 0;
-      if (kickSubs.length < expectedKickSubs && process.env.NODE_ENV !== 'development') {
-        console.warn('Warning: Some Kick subscriptions may not have been created successfully.');
-      }
-    } catch (error: any) {
-      console.warn('Could not list Kick subscriptions:', error.message);
-    }
-  }, 30000);
+  // Pick up channels.json edits without a restart
+  watchChannels();
 } else {
-  console.log('Development mode: Skipping subscription setup.');
+  log.info('Development mode: Skipping subscription setup.');
 }
 
-
-
-
-
+// Resume events that were accepted before the last shutdown
+processOutbox();
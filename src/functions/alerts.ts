@@ -0,0 +1,66 @@
+import type { Platform } from './channels.js';
+import type { DiscordMessage } from './discord.js';
+import type { NormalizedStreamData } from './message.js';
+import type { NotifierConfig } from './notifiers/types.js';
+import { readDataFile, writeDataFile } from './storage.js';
+
+const ALERTS_FILE = 'alerts.json';
+
+// --- TYPES ---
+export interface PostedMessage {
+  notifier: NotifierConfig;
+  messageId: string;
+}
+
+// Alerts saved before other sinks existed only recorded the Discord webhook URL
+type LegacyPostedMessage = PostedMessage & { webhookUrl?: string };
+
+export interface ActiveAlert {
+  platform: Platform;
+  userId: string;
+  streamId?: string;
+  startedAt: string;
+  offlineImage: string;
+  imageUrl: string;
+  data: NormalizedStreamData;
+  history: string[];
+  message: DiscordMessage;
+  posted: PostedMessage[];
+}
+
+// Alerts for streams that are currently live, keyed by platform and broadcaster ID
+let activeAlerts: Record<string, ActiveAlert> | null = null;
+
+const alertKey = (platform: Platform, userId: string): string => `${platform}:${userId}`;
+
+export const upgradeAlert = (alert: ActiveAlert): ActiveAlert => ({
+  ...alert,
+  posted: alert.posted.map(({ webhookUrl, ...posted }: LegacyPostedMessage) => {
+    return webhookUrl ? { notifier: { type: 'discord', url: webhookUrl }, messageId: posted.messageId } : posted;
+  })
+});
+
+const loadAlerts = (): Record<string, ActiveAlert> => {
+  if (!activeAlerts) {
+    const stored = readDataFile<Record<string, ActiveAlert>>(ALERTS_FILE, {});
+    activeAlerts = Object.fromEntries(Object.entries(stored).map(([key, alert]) => [key, upgradeAlert(alert)]));
+  }
+  return activeAlerts;
+};
+
+// --- ACTIVE ALERT STORE ---
+export const getActiveAlert = (platform: Platform, userId: string): ActiveAlert | undefined => {
+  return loadAlerts()[alertKey(platform, userId)];
+};
+
+export const saveActiveAlert = (alert: ActiveAlert): void => {
+  const alerts = loadAlerts();
+  alerts[alertKey(alert.platform, alert.userId)] = alert;
+  writeDataFile(ALERTS_FILE, alerts);
+};
+
+export const removeActiveAlert = (platform: Platform, userId: string): void => {
+  const alerts = loadAlerts();
+  delete alerts[alertKey(platform, userId)];
+  writeDataFile(ALERTS_FILE, alerts);
+};
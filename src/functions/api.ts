@@ -0,0 +1,154 @@
+import express from 'express';
+import type { NextFunction, Request, Response, Router } from 'express';
+import crypto from 'crypto';
+import { PLATFORMS, normalizeChannelEntry } from './channels.js';
+import type { ChannelEntry, Platform } from './channels.js';
+import { ChannelManagementError, listTrackedChannels, trackChannel, untrackChannel } from './manage.js';
+import { ChannelNotFoundError } from './reconcile.js';
+import { discardDeadLetter, getOutbox, replayDeadLetter } from './outbox.js';
+import { getLastAudit, runSubscriptionAudit } from './audit.js';
+import { TwitchApiClient } from './auth/twitch/auth.js';
+import { rotateTwitchSecret } from './auth/twitch/subscriptions.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('API');
+
+// --- HELPERS ---
+const sendError = (res: Response, status: number, code: string, message: string) => {
+  return res.status(status).json({ error: { code, message } });
+};
+
+const isPlatform = (value: string): value is Platform => PLATFORMS.includes(value as Platform);
+
+const requireToken = (req: Request, res: Response, next: NextFunction) => {
+  const token = process.env.ADMIN_API_TOKEN;
+  if (!token) {
+    return sendError(res, 503, 'api_disabled', 'Admin API is disabled. Set ADMIN_API_TOKEN to enable it.');
+  }
+  const provided = req.headers.authorization?.replace(/^Bearer\s+/i, '') || '';
+  const expected = Buffer.from(token);
+  const actual = Buffer.from(provided);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return sendError(res, 401, 'unauthorized', 'Missing or invalid bearer token.');
+  }
+  next();
+};
+
+const handleError = (res: Response, err: unknown) => {
+  if (err instanceof ChannelNotFoundError) {
+    return sendError(res, 404, 'user_not_found', err.message);
+  }
+  if (err instanceof ChannelManagementError) {
+    const status = { already_tracked: 409, not_tracked: 404, invalid_channel: 400 }[err.code];
+    return sendError(res, status, err.code, err.message);
+  }
+  log.error('Unexpected error', { err });
+  return sendError(res, 500, 'internal_error', (err as Error).message);
+};
+
+// --- ADMIN API ---
+export const createApiRouter = (): Router => {
+  const router = express.Router();
+
+  router.use(requireToken);
+
+  router.get('/channels', (req: Request, res: Response) => {
+    res.status(200).json({ channels: listTrackedChannels() });
+  });
+
+  router.get('/channels/:platform', (req: Request, res: Response) => {
+    const platform = req.params.platform as string;
+    if (!isPlatform(platform)) {
+      return sendError(res, 404, 'unknown_platform', `Unknown platform: ${platform}`);
+    }
+    res.status(200).json({ channels: listTrackedChannels(platform) });
+  });
+
+  router.post('/channels/:platform', async (req: Request, res: Response) => {
+    const platform = req.params.platform as string;
+    if (!isPlatform(platform)) {
+      return sendError(res, 404, 'unknown_platform', `Unknown platform: ${platform}`);
+    }
+
+    let entry: ChannelEntry;
+    try {
+      const body = Buffer.isBuffer(req.body) ? JSON.parse(req.body.toString()) : req.body;
+      entry = normalizeChannelEntry(body);
+    } catch (err) {
+      return sendError(res, 400, 'invalid_body', `Expected a JSON body like { "name": "...", "webhooks": ["..."] }: ${(err as Error).message}`);
+    }
+
+    try {
+      const channel = await trackChannel(platform, entry);
+      log.info(`Added ${platform} channel ${channel.name}`, { platform, channel: channel.name });
+      res.status(201).json({ channel });
+    } catch (err) {
+      handleError(res, err);
+    }
+  });
+
+  router.delete('/channels/:platform/:name', async (req: Request, res: Response) => {
+    const platform = req.params.platform as string;
+    const name = req.params.name as string;
+    if (!isPlatform(platform)) {
+      return sendError(res, 404, 'unknown_platform', `Unknown platform: ${platform}`);
+    }
+
+    try {
+      const deleted = await untrackChannel(platform, name);
+      log.info(`Removed ${platform} channel ${name}`, { platform, channel: name });
+      res.status(200).json({ platform, name, deletedSubscriptions: deleted });
+    } catch (err) {
+      handleError(res, err);
+    }
+  });
+
+  router.get('/outbox', (req: Request, res: Response) => {
+    const { pending, deadLetters } = getOutbox();
+    res.status(200).json({ pending, deadLetters });
+  });
+
+  router.post('/outbox/dead-letters/:id/replay', (req: Request, res: Response) => {
+    const item = replayDeadLetter(req.params.id as string);
+    if (!item) {
+      return sendError(res, 404, 'dead_letter_not_found', `Dead letter not found: ${req.params.id}`);
+    }
+    res.status(202).json({ item });
+  });
+
+  router.delete('/outbox/dead-letters/:id', (req: Request, res: Response) => {
+    if (!discardDeadLetter(req.params.id as string)) {
+      return sendError(res, 404, 'dead_letter_not_found', `Dead letter not found: ${req.params.id}`);
+    }
+    res.status(204).end();
+  });
+
+  router.get('/audit', (req: Request, res: Response) => {
+    res.status(200).json(getLastAudit());
+  });
+
+  router.post('/audit', async (req: Request, res: Response) => {
+    try {
+      const reports = await runSubscriptionAudit(req.query.repair === 'true');
+      res.status(200).json({ checkedAt: getLastAudit().checkedAt, reports });
+    } catch (err) {
+      handleError(res, err);
+    }
+  });
+
+  router.post('/twitch/secret/rotate', async (req: Request, res: Response) => {
+    try {
+      const client = await TwitchApiClient.getInstance();
+      if (!client.canRotateSecret) {
+        return sendError(res, 409, 'rotation_unavailable', 'The EventSub secret comes from EVENTSUB_SECRET or development mode and cannot be rotated here.');
+      }
+      const result = await rotateTwitchSecret();
+      log.info(`Rotated Twitch EventSub secret, ${result.recreated} subscription(s) recreated`);
+      res.status(200).json(result);
+    } catch (err) {
+      handleError(res, err);
+    }
+  });
+
+  return router;
+};
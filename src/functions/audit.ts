@@ -0,0 +1,162 @@
+import { findChannelId, getActiveConfig, getChannelEntries } from './channels.js';
+import type { Platform } from './channels.js';
+import { getPlatform, getPlatforms } from './platforms/index.js';
+import type { PlatformSubscription, StreamPlatform } from './platforms/types.js';
+import { logReconcileReport, reconcilePlatformSubscriptions } from './reconcile.js';
+import { activeSubscriptions } from './metrics.js';
+import { createLogger } from './logger.js';
+
+const DEFAULT_AUDIT_INTERVAL_MINUTES = 5;
+
+const log = createLogger('Audit');
+
+// --- TYPES ---
+export type AuditIssue = 'unresolved' | 'missing' | 'failed' | 'duplicated';
+
+export interface AuditFinding {
+  issue: AuditIssue;
+  channel: string;
+  userId: string | null;
+  type?: string;
+  // Statuses of the subscriptions behind the finding, e.g. the failed ones
+  statuses?: string[];
+}
+
+export interface AuditReport {
+  platform: Platform;
+  checkedAt: string;
+  channels: number;
+  subscriptions: number;
+  // Subscription count per platform status, e.g. enabled or notification_failures_exceeded
+  statuses: Record<string, number>;
+  findings: AuditFinding[];
+  repaired: boolean;
+  error?: string;
+}
+
+const lastReports = new Map<Platform, AuditReport>();
+let lastAuditAt: string | null = null;
+let auditTimer: NodeJS.Timeout | null = null;
+let auditRunning = false;
+
+const countStatuses = (subs: PlatformSubscription[]): Record<string, number> => {
+  const statuses: Record<string, number> = {};
+  for (const sub of subs) statuses[sub.status] = (statuses[sub.status] || 0) + 1;
+  return statuses;
+};
+
+// Platforms that filter by status are asked for each status the audit cares about
+const listAuditedSubscriptions = async (adapter: StreamPlatform): Promise<PlatformSubscription[]> => {
+  if (!adapter.auditStatuses) return adapter.listSubscriptions();
+  const subs: PlatformSubscription[] = [];
+  for (const status of adapter.auditStatuses) {
+    subs.push(...await adapter.listSubscriptions(status));
+  }
+  return subs;
+};
+
+// --- AUDIT ---
+export const auditPlatformSubscriptions = async (platform: Platform, repair = false): Promise<AuditReport> => {
+  const adapter = getPlatform(platform);
+  const entries = getChannelEntries(getActiveConfig(), platform);
+  const subs = await listAuditedSubscriptions(adapter);
+  const findings: AuditFinding[] = [];
+
+  for (const entry of entries) {
+    const userId = findChannelId(platform, entry.name) ?? null;
+    if (!userId) {
+      findings.push({ issue: 'unresolved', channel: entry.name, userId });
+      continue;
+    }
+    for (const type of adapter.subscriptionTypes) {
+      const matching = subs.filter(sub => sub.userId === userId && sub.type === type);
+      const healthy = matching.filter(sub => sub.healthy);
+      if (healthy.length > 1) {
+        findings.push({ issue: 'duplicated', channel: entry.name, userId, type, statuses: healthy.map(sub => sub.status) });
+      } else if (healthy.length === 0) {
+        const failed = matching.map(sub => sub.status);
+        findings.push({ issue: failed.length > 0 ? 'failed' : 'missing', channel: entry.name, userId, type, ...(failed.length > 0 && { statuses: failed }) });
+      }
+    }
+  }
+
+  activeSubscriptions.set({ platform }, subs.filter(sub => sub.healthy).length);
+
+  // Reconciling deletes failed and duplicate subscriptions and creates the missing ones
+  let repaired = false;
+  if (repair && findings.some(finding => finding.issue !== 'unresolved')) {
+    logReconcileReport(await reconcilePlatformSubscriptions(platform, entries));
+    repaired = true;
+  }
+
+  return {
+    platform,
+    checkedAt: new Date().toISOString(),
+    channels: entries.length,
+    subscriptions: subs.length,
+    statuses: countStatuses(subs),
+    findings,
+    repaired
+  };
+};
+
+const logAuditReport = (report: AuditReport): void => {
+  const platformLog = createLogger(getPlatform(report.platform).name);
+  if (report.error) {
+    platformLog.warn(`Subscription audit failed: ${report.error}`);
+    return;
+  }
+  if (report.findings.length === 0) {
+    platformLog.info(`Subscription audit: ${report.channels} channel(s), ${report.subscriptions} subscription(s), no problems found`, { statuses: report.statuses });
+    return;
+  }
+  platformLog.warn(`Subscription audit found ${report.findings.length} problem(s)${report.repaired ? ', repaired' : ''}`, { statuses: report.statuses });
+  for (const finding of report.findings) {
+    const type = finding.type ? ` ${finding.type}` : '';
+    const statuses = finding.statuses ? ` (${finding.statuses.join(', ')})` : '';
+    platformLog.warn(`  ${finding.issue}${type} for ${finding.channel}${statuses}`, { issue: finding.issue, channel: finding.channel, userId: finding.userId });
+  }
+};
+
+export const runSubscriptionAudit = async (repair = process.env.AUDIT_REPAIR === 'true'): Promise<AuditReport[]> => {
+  const reports: AuditReport[] = [];
+  for (const adapter of getPlatforms()) {
+    let report: AuditReport;
+    try {
+      report = await auditPlatformSubscriptions(adapter.id, repair);
+    } catch (err) {
+      report = { platform: adapter.id, checkedAt: new Date().toISOString(), channels: 0, subscriptions: 0, statuses: {}, findings: [], repaired: false, error: (err as Error).message };
+    }
+    logAuditReport(report);
+    lastReports.set(adapter.id, report);
+    reports.push(report);
+  }
+  lastAuditAt = new Date().toISOString();
+  return reports;
+};
+
+export const getLastAudit = (): { checkedAt: string | null; reports: AuditReport[] } => ({
+  checkedAt: lastAuditAt,
+  reports: [...lastReports.values()]
+});
+
+// --- SCHEDULE ---
+export const startSubscriptionAudit = (): void => {
+  const minutes = Number(process.env.AUDIT_INTERVAL_MINUTES ?? DEFAULT_AUDIT_INTERVAL_MINUTES);
+  if (!Number.isFinite(minutes) || minutes <= 0) {
+    log.info('Subscription audit disabled');
+    return;
+  }
+  if (auditTimer) clearInterval(auditTimer);
+  const runAudit = () => {
+    // A slow platform API shouldn't stack audits on top of each other
+    if (auditRunning) return;
+    auditRunning = true;
+    runSubscriptionAudit()
+      .catch(err => log.error('Subscription audit failed', { err }))
+      .finally(() => { auditRunning = false; });
+  };
+  // Run once straight away so the health report has results before the first interval is up
+  runAudit();
+  auditTimer = setInterval(runAudit, minutes * 60 * 1000);
+};
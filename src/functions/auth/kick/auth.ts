@@ -1,4 +1,14 @@
 import crypto from 'crypto';
+import { tokenRefreshes } from '../../metrics.js';
+import { readDataFile, writeDataFile } from '../../storage.js';
+import { createLogger } from '../../logger.js';
+
+const log = createLogger('Kick');
+
+const PUBLIC_KEY_FILE = 'kick-public-key.json';
+const PUBLIC_KEY_REFRESH_MS = 24 * 60 * 60 * 1000;
+// Failed signatures can be forged by anyone, so they may only trigger a refetch this often
+const PUBLIC_KEY_REFETCH_COOLDOWN_MS = 5 * 60 * 1000;
 
 interface KickApiConfig {
   clientId: string;
@@ -11,6 +21,11 @@ interface KickToken {
   obtainmentTimestamp: number;
 }
 
+interface KickPublicKey {
+  publicKey: string;
+  fetchedAt: string;
+}
+
 export class KickApiClient {
   private static readonly API_BASE_URL = 'https://api.kick.com/public/v1';
   private static readonly AUTH_BASE_URL = 'https://id.kick.com';
@@ -21,6 +36,10 @@ export class KickApiClient {
   private config: KickApiConfig;
   private appToken: KickToken | null = null;
   private publicKey: string | null = null;
+  private publicKeyFetchedAt: number | null = null;
+  private publicKeyError: string | null = null;
+  private publicKeyFetch: Promise<boolean> | null = null;
+  private lastSignatureRefetch = 0;
 
   private constructor(config: KickApiConfig) {
     this.config = config;
@@ -34,7 +53,7 @@ export class KickApiClient {
       const KICK_CLIENT_SECRET = process.env.KICK_CLIENT_SECRET;
 
       if (!KICK_CLIENT_ID || !KICK_CLIENT_SECRET) {
-        console.warn('[Kick] Missing Kick credentials. Kick integrations disabled.');
+        log.warn('Missing Kick credentials. Kick integrations disabled.');
         const client = new KickApiClient({ clientId: '', clientSecret: '' });
         KickApiClient.instance = client;
         return client;
@@ -48,7 +67,7 @@ export class KickApiClient {
       try {
         await client.initialize();
       } catch (err) {
-        console.error("[Kick] Failed to initialize KickApiClient:", err);
+        log.error("Failed to initialize KickApiClient", { err });
       }
       KickApiClient.instance = client;
       return client;
@@ -57,18 +76,18 @@ export class KickApiClient {
   }
 
   private async initialize(): Promise<void> {
-    await this.fetchPublicKey();
+    await this.loadPublicKey();
     // Try getting a valid token eagerly
     try {
       await this.getValidAccessToken();
     } catch (e) {
-      console.error("[Kick] Failed to get Kick app access token on init", e);
+      log.error("Failed to get Kick app access token on init", { err: e });
     }
   }
 
   // --- APP ACCESS TOKEN FLOW ---
   private async fetchAppAccessToken(): Promise<void> {
-    console.log('[Kick] Fetching new App Access Token...');
+    log.info('Fetching new App Access Token...');
     const params = new URLSearchParams({
       grant_type: 'client_credentials',
       client_id: this.config.clientId,
@@ -81,6 +100,7 @@ export class KickApiClient {
       headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
     });
 
+    tokenRefreshes.inc({ client: 'kick', result: response.ok ? 'success' : 'failure' });
     if (!response.ok) {
       throw new Error(`[Kick] Failed to fetch App Access Token: ${await response.text()}`);
     }
@@ -91,7 +111,7 @@ export class KickApiClient {
       expiresIn: tokens.expires_in,
       obtainmentTimestamp: Date.now()
     };
-    console.log('[Kick] App Access Token fetched and stored in memory.');
+    log.info('App Access Token fetched and stored in memory.');
   }
 
   private isTokenExpired(token: KickToken | null): boolean {
@@ -104,6 +124,15 @@ export class KickApiClient {
     return this.appToken !== null && !this.isTokenExpired(this.appToken);
   }
 
+  public get hasPublicKey(): boolean {
+    return this.publicKey !== null;
+  }
+
+  // Reason the last public key fetch failed, cleared once a fetch succeeds
+  public get publicKeyFetchError(): string | null {
+    return this.publicKeyError;
+  }
+
   private async getValidAccessToken(): Promise<string> {
     if (this.isTokenExpired(this.appToken)) {
       await this.fetchAppAccessToken();
@@ -114,28 +143,64 @@ export class KickApiClient {
     return this.appToken!.accessToken;
   }
 
-  private async fetchPublicKey(): Promise<void> {
+  // --- PUBLIC KEY ---
+  // The cached key is used straight away and refreshed once it is older than a day
+  private async loadPublicKey(): Promise<void> {
     if (process.env.NODE_ENV === 'development' && process.env.KICK_PUBLIC_KEY) {
-      console.log('[Kick] Using KICK_PUBLIC_KEY from environment.');
+      log.info('Using KICK_PUBLIC_KEY from environment.');
       // Handle the case where the key may have been replaced with literal \n
       this.publicKey = process.env.KICK_PUBLIC_KEY.replace(/\\n/g, '\n').trim();
       return;
     }
 
-    const response = await fetch(`${KickApiClient.API_BASE_URL}/public-key`);
-    if (!response.ok) {
-      console.error('[Kick] Failed to fetch Kick Public Key');
-      return;
+    const cached = readDataFile<KickPublicKey | null>(PUBLIC_KEY_FILE, null);
+    if (cached?.publicKey) {
+      this.publicKey = cached.publicKey;
+      this.publicKeyFetchedAt = new Date(cached.fetchedAt).getTime() || 0;
+      log.info(`Loaded cached public key fetched at ${cached.fetchedAt}`);
+    }
+    if (!this.publicKeyFetchedAt || Date.now() - this.publicKeyFetchedAt > PUBLIC_KEY_REFRESH_MS) {
+      await this.refreshPublicKey();
+    }
+
+    setInterval(() => this.refreshPublicKey(), PUBLIC_KEY_REFRESH_MS).unref();
+  }
+
+  // Concurrent callers share one request; resolves to whether a key was fetched
+  private refreshPublicKey(): Promise<boolean> {
+    if (!this.publicKeyFetch) {
+      this.publicKeyFetch = this.fetchPublicKey().finally(() => {
+        this.publicKeyFetch = null;
+      });
     }
+    return this.publicKeyFetch;
+  }
+
+  private async fetchPublicKey(): Promise<boolean> {
     try {
+      const response = await fetch(`${KickApiClient.API_BASE_URL}/public-key`);
+      if (!response.ok) {
+        throw new Error(`${response.status} - ${await response.text()}`);
+      }
       const json = await response.json();
-      if (json && json.data && json.data.public_key) {
-        this.publicKey = json.data.public_key.trim();
-      } else {
-        console.error('[Kick] Unexpected public key response format:', json);
+      const publicKey = json?.data?.public_key;
+      if (typeof publicKey !== 'string' || !publicKey.trim()) {
+        throw new Error(`Unexpected response format: ${JSON.stringify(json)}`);
+      }
+
+      if (this.publicKey && this.publicKey !== publicKey.trim()) {
+        log.warn('Kick public key has changed, using the new key');
       }
+      this.publicKey = publicKey.trim();
+      this.publicKeyFetchedAt = Date.now();
+      this.publicKeyError = null;
+      writeDataFile(PUBLIC_KEY_FILE, { publicKey: this.publicKey, fetchedAt: new Date(this.publicKeyFetchedAt).toISOString() });
+      return true;
     } catch (err) {
-      console.error('[Kick] Error parsing public key response:', err);
+      this.publicKeyError = (err as Error).message;
+      const fallback = this.publicKey ? 'keeping the previously fetched key' : 'Kick webhooks will be rejected until a key is fetched';
+      log.error(`Failed to fetch Kick public key, ${fallback}: ${this.publicKeyError}`);
+      return false;
     }
   }
 
@@ -169,7 +234,7 @@ export class KickApiClient {
       }
       return response;
     } catch (err) {
-      console.warn(`[Kick] Error fetching channel info for ${identifier}`, err);
+      log.warn(`Error fetching channel info for ${identifier}`, { err });
       return null;
     }
   }
@@ -182,7 +247,7 @@ export class KickApiClient {
       }
       return response;
     } catch (err) {
-      console.error(`[Kick] Error fetching user info for ${identifier}:`, err);
+      log.error(`Error fetching user info for ${identifier}`, { err });
       return null;
     }
   }
@@ -210,16 +275,28 @@ export class KickApiClient {
     await this.makeApiRequest(`events/subscriptions?id=${id}`, 'DELETE');
   }
 
-  public verifyKickSignature(
+  private verifyWithPublicKey(dataToSign: string, providedSignature: string): boolean {
+    if (!this.publicKey) return false;
+    const verify = crypto.createVerify('SHA256');
+    verify.update(dataToSign);
+    return verify.verify(this.publicKey, providedSignature, 'base64');
+  }
+
+  // A failed check refetches the key once, in case Kick rotated it or the startup fetch failed
+  public async verifyKickSignature(
     messageId: string,
     timestamp: string,
     body: string,
     providedSignature: string
-  ): boolean {
-    if (!this.publicKey) return false;
+  ): Promise<boolean> {
     const dataToSign = `${messageId}.${timestamp}.${body}`;
-    const verify = crypto.createVerify('SHA256');
-    verify.update(dataToSign);
-    return verify.verify(this.publicKey, providedSignature, 'base64');
+    if (this.verifyWithPublicKey(dataToSign, providedSignature)) return true;
+    if (process.env.NODE_ENV === 'development' && process.env.KICK_PUBLIC_KEY) return false;
+    if (Date.now() - this.lastSignatureRefetch < PUBLIC_KEY_REFETCH_COOLDOWN_MS) return false;
+
+    this.lastSignatureRefetch = Date.now();
+    log.info('Signature check failed, refetching the Kick public key');
+    if (!await this.refreshPublicKey()) return false;
+    return this.verifyWithPublicKey(dataToSign, providedSignature);
   }
 }
@@ -1,4 +1,7 @@
 import { KickApiClient } from "./auth.js";
+import { createLogger } from "../../logger.js";
+
+const log = createLogger("Kick");
 
 let client: KickApiClient | null = null;
 
@@ -10,21 +13,30 @@ const getClient = async (): Promise<KickApiClient> => {
   return client;
 };
 
-export const createKickOnlineSubscription = async (broadcasterId: number): Promise<any> => {
+// Events subscribed for every tracked channel
+export const KICK_SUBSCRIPTION_EVENTS = [
+  { name: "livestream.status.updated", version: 1 },
+  { name: "livestream.metadata.updated", version: 1 }
+];
+
+export const createKickSubscriptions = async (broadcasterId: number, events: { name: string; version: number }[]): Promise<KickSubscriptionResult[] | null> => {
   const client = await getClient();
   if (!client.isAuthenticated) {
-    console.warn("[Kick] Cannot create subscription: Not authenticated.");
+    log.warn("Cannot create subscription: Not authenticated.");
     return null;
   }
-  const events = [{ name: "livestream.status.updated", version: 1 }];
   const sub = await client.createEventSubSubscription(broadcasterId, events);
   return sub?.data;
 };
 
-export const listKickSubscriptions = async (): Promise<any[]> => {
+export const createKickOnlineSubscription = async (broadcasterId: number): Promise<KickSubscriptionResult[] | null> => {
+  return createKickSubscriptions(broadcasterId, KICK_SUBSCRIPTION_EVENTS);
+};
+
+export const listKickSubscriptions = async (): Promise<KickEventSubscription[]> => {
   const client = await getClient();
   if (!client.isAuthenticated) {
-    console.warn("[Kick] Cannot list subscriptions: Not authenticated.");
+    log.warn("Cannot list subscriptions: Not authenticated.");
     return [];
   }
   const { data: subs } = await client.listEventSubSubscriptions();
@@ -34,7 +46,7 @@ export const listKickSubscriptions = async (): Promise<any[]> => {
 export const deleteKickSubscription = async (subscriptionId: string): Promise<void> => {
   const client = await getClient();
   if (!client.isAuthenticated) {
-    console.warn("[Kick] Cannot delete subscription: Not authenticated.");
+    log.warn("Cannot delete subscription: Not authenticated.");
     return;
   }
   await client.deleteEventSubSubscription(subscriptionId);
@@ -43,12 +55,12 @@ export const deleteKickSubscription = async (subscriptionId: string): Promise<vo
 export const deleteAllKickSubscriptions = async (): Promise<number> => {
   const client = await getClient();
   if (!client.isAuthenticated) {
-    console.warn("[Kick] Cannot delete subscriptions: Not authenticated.");
+    log.warn("Cannot delete subscriptions: Not authenticated.");
     return 0;
   }
   const { data: subs } = await client.listEventSubSubscriptions();
   if (subs && subs.length > 0) {
-    await Promise.all(subs.map((sub: any) => client.deleteEventSubSubscription(sub.id)));
+    await Promise.all(subs.map((sub: KickEventSubscription) => client.deleteEventSubSubscription(sub.id)));
   }
   return subs ? subs.length : 0;
 };
@@ -1,4 +1,12 @@
 import crypto from 'crypto';
+import { tokenRefreshes } from '../../metrics.js';
+import { readDataFile, writeDataFile } from '../../storage.js';
+import { createLogger } from '../../logger.js';
+
+const log = createLogger('Twitch');
+
+const SECRET_FILE = 'twitch-eventsub.json';
+const USER_TOKEN_FILE = 'twitch-user-token.json';
 
 // --- TYPES ---
 interface TwitchApiConfig {
@@ -12,6 +20,22 @@ interface TwitchToken {
     obtainmentTimestamp: number;
 }
 
+// Twitch may hand out a new refresh token when refreshing, so the latest one is kept on disk
+interface StoredUserToken {
+    refreshToken: string;
+    // TWITCH_USER_REFRESH_TOKEN at the time, a different value in the environment takes over again
+    fromEnv: string;
+}
+
+interface StoredEventSubSecret {
+    secret: string;
+    // Still accepted until it expires, so notifications already in flight verify during a rotation
+    previousSecret?: string;
+    previousSecretExpiresAt?: string;
+    // Counts rotations, subscriptions made under a rotated secret carry it in their callback URL
+    generation?: number;
+}
+
 // --- TWITCH CLIENT CLASS ---
 export class TwitchApiClient {
     private static readonly API_BASE_URL = 'https://api.twitch.tv/helix';
@@ -22,10 +46,14 @@ export class TwitchApiClient {
 
     private config: TwitchApiConfig;
     private appToken: TwitchToken | null = null;
-    private secret: string = process.env.EVENTSUB_SECRET || (process.env.NODE_ENV === 'development' ? 'test_secret_123' : crypto.randomBytes(32).toString('hex'));
+    private userToken: TwitchToken | null = null;
+    private secret: string;
+    private previousSecret: { secret: string; expiresAt: number } | null = null;
+    private generation = 0;
 
     private constructor(config: TwitchApiConfig) {
         this.config = config;
+        this.secret = this.loadSecret();
     }
 
     // --- SINGLETON INSTANCE ---
@@ -72,6 +100,52 @@ export class TwitchApiClient {
         return this.appToken !== null && !this.isTokenExpired(this.appToken);
     }
 
+    // --- EVENTSUB SECRET ---
+    // Generated once and kept in the data directory, so subscriptions from a previous process still verify
+    private loadSecret(): string {
+        if (process.env.EVENTSUB_SECRET) return process.env.EVENTSUB_SECRET;
+        if (process.env.NODE_ENV === 'development') return 'test_secret_123';
+
+        const stored = readDataFile<Partial<StoredEventSubSecret>>(SECRET_FILE, {});
+        if (stored.previousSecret && stored.previousSecretExpiresAt) {
+            const expiresAt = new Date(stored.previousSecretExpiresAt).getTime();
+            if (expiresAt > Date.now()) this.previousSecret = { secret: stored.previousSecret, expiresAt };
+        }
+        this.generation = stored.generation ?? 0;
+        if (stored.secret) return stored.secret;
+
+        const secret = crypto.randomBytes(32).toString('hex');
+        writeDataFile(SECRET_FILE, { secret });
+        log.info(`Generated a new EventSub secret and saved it to ${SECRET_FILE}`);
+        return secret;
+    }
+
+    public get secretGeneration(): number {
+        return this.generation;
+    }
+
+    public get canRotateSecret(): boolean {
+        return !process.env.EVENTSUB_SECRET && process.env.NODE_ENV !== 'development';
+    }
+
+    // Switch to a new secret; the old one keeps verifying for graceMs while subscriptions are recreated
+    public rotateSecret(graceMs: number): void {
+        if (!this.canRotateSecret) {
+            throw new Error('EVENTSUB_SECRET is set in the environment, change it there to rotate the secret');
+        }
+        const expiresAt = Date.now() + graceMs;
+        this.previousSecret = { secret: this.secret, expiresAt };
+        this.secret = crypto.randomBytes(32).toString('hex');
+        this.generation++;
+        writeDataFile(SECRET_FILE, {
+            secret: this.secret,
+            previousSecret: this.previousSecret.secret,
+            previousSecretExpiresAt: new Date(expiresAt).toISOString(),
+            generation: this.generation
+        });
+        log.info(`Rotated EventSub secret, the previous secret is accepted until ${new Date(expiresAt).toISOString()}`);
+    }
+
     private async getValidAccessToken(): Promise<string> {
         if (this.isTokenExpired(this.appToken)) {
             await this.fetchAppAccessToken();
@@ -79,14 +153,60 @@ export class TwitchApiClient {
         return this.appToken!.accessToken;
     }
 
+    // WebSocket subscriptions can only be created, listed and deleted with a user access token
+    public get usesWebSocket(): boolean {
+        return process.env.TWITCH_EVENTSUB_TRANSPORT === 'websocket';
+    }
+
+    private getRefreshToken(): string {
+        const fromEnv = process.env.TWITCH_USER_REFRESH_TOKEN || '';
+        const stored = readDataFile<StoredUserToken | null>(USER_TOKEN_FILE, null);
+        const refreshToken = stored && stored.fromEnv === fromEnv ? stored.refreshToken : fromEnv;
+        if (!refreshToken) {
+            throw new Error('[Twitch] TWITCH_USER_REFRESH_TOKEN is required for the websocket EventSub transport');
+        }
+        return refreshToken;
+    }
+
+    private async getValidUserAccessToken(): Promise<string> {
+        if (this.isTokenExpired(this.userToken)) {
+            await this.fetchUserAccessToken();
+        }
+        return this.userToken!.accessToken;
+    }
+
+    private async fetchUserAccessToken(): Promise<void> {
+        log.info('Refreshing User Access Token...');
+        const params = new URLSearchParams({
+            client_id: this.config.clientId,
+            client_secret: this.config.clientSecret,
+            grant_type: 'refresh_token',
+            refresh_token: this.getRefreshToken(),
+        });
+        const response = await fetch(`${TwitchApiClient.AUTH_BASE_URL}/token`, { method: 'POST', body: params });
+        tokenRefreshes.inc({ client: 'twitch_user', result: response.ok ? 'success' : 'failure' });
+        if (!response.ok) throw new Error(`[Twitch] Failed to refresh User Access Token: ${await response.text()}`);
+        const newTokens = await response.json();
+        this.userToken = {
+            accessToken: newTokens.access_token,
+            expiresIn: newTokens.expires_in,
+            obtainmentTimestamp: Date.now(),
+        };
+        if (newTokens.refresh_token) {
+            writeDataFile(USER_TOKEN_FILE, { refreshToken: newTokens.refresh_token, fromEnv: process.env.TWITCH_USER_REFRESH_TOKEN || '' });
+        }
+        log.info('User Access Token refreshed and stored in memory.');
+    }
+
     private async fetchAppAccessToken(): Promise<void> {
-        console.log('[Twitch] Fetching new App Access Token...');
+        log.info('Fetching new App Access Token...');
         const params = new URLSearchParams({
             client_id: this.config.clientId,
             client_secret: this.config.clientSecret,
             grant_type: 'client_credentials',
         });
         const response = await fetch(`${TwitchApiClient.AUTH_BASE_URL}/token`, { method: 'POST', body: params });
+        tokenRefreshes.inc({ client: 'twitch', result: response.ok ? 'success' : 'failure' });
         if (!response.ok) throw new Error(`[Twitch] Failed to fetch App Access Token: ${await response.text()}`);
         const newTokens = await response.json();
         this.appToken = {
@@ -94,12 +214,12 @@ export class TwitchApiClient {
             expiresIn: newTokens.expires_in,
             obtainmentTimestamp: Date.now(),
         };
-        console.log('[Twitch] App Access Token fetched and stored in memory.');
+        log.info('App Access Token fetched and stored in memory.');
     }
 
     // --- GENERIC API REQUEST HANDLER ---
-    private async makeApiRequest<T>(endpoint: string, method: 'GET' | 'POST' | 'DELETE' = 'GET', body?: object): Promise<T> {
-        const accessToken = await this.getValidAccessToken();
+    private async makeApiRequest<T>(endpoint: string, method: 'GET' | 'POST' | 'DELETE' = 'GET', body?: object, useUserToken = false): Promise<T> {
+        const accessToken = useUserToken ? await this.getValidUserAccessToken() : await this.getValidAccessToken();
         const url = `${TwitchApiClient.API_BASE_URL}/${endpoint}`;
         const headers = { 'Authorization': `Bearer ${accessToken}`, 'Client-Id': this.config.clientId, 'Content-Type': 'application/json' };
         const response = await fetch(url, { method, headers, body: body ? JSON.stringify(body) : undefined });
@@ -109,32 +229,42 @@ export class TwitchApiClient {
     }
 
     // --- PUBLIC API METHODS ---
+    // Twitch returns at most 100 subscriptions per page, so every page is read before returning
     public async listEventSubSubscriptions(status?: string): Promise<{ data: EventSubSubscription[] }> {
-        const endpoint = status ? `eventsub/subscriptions?status=${status}` : 'eventsub/subscriptions';
-        return this.makeApiRequest(endpoint, 'GET');
+        const data: EventSubSubscription[] = [];
+        let cursor: string | undefined;
+        do {
+            const params = new URLSearchParams();
+            if (status) params.set('status', status);
+            if (cursor) params.set('after', cursor);
+            const query = params.toString();
+            const page = await this.makeApiRequest<{ data: EventSubSubscription[]; pagination?: { cursor?: string } }>(
+                query ? `eventsub/subscriptions?${query}` : 'eventsub/subscriptions', 'GET', undefined, this.usesWebSocket
+            );
+            data.push(...(page?.data || []));
+            cursor = page?.pagination?.cursor;
+        } while (cursor);
+        return { data };
     }
 
     public async createEventSubSubscription(
         type: string,
         version: string,
         condition: Record<string, string>,
-        callbackUrl: string
+        transport: EventSubTransport
     ): Promise<{ data: EventSubSubscription[] }> {
         const body = {
             type,
             version,
             condition,
-            transport: {
-                method: "webhook",
-                callback: callbackUrl,
-                secret: this.secret
-            },
+            // Webhook notifications are signed with the secret, WebSocket ones arrive over the session itself
+            transport: transport.method === 'webhook' ? { ...transport, secret: this.secret } : transport,
         };
-        return this.makeApiRequest('eventsub/subscriptions', 'POST', body);
+        return this.makeApiRequest('eventsub/subscriptions', 'POST', body, this.usesWebSocket);
     }
 
     public async deleteEventSubSubscription(id: string): Promise<void> {
-        await this.makeApiRequest(`eventsub/subscriptions?id=${id}`, 'DELETE');
+        await this.makeApiRequest(`eventsub/subscriptions?id=${id}`, 'DELETE', undefined, this.usesWebSocket);
     }
 
     public async verifyTwitchSignature(
@@ -143,12 +273,19 @@ export class TwitchApiClient {
         body: Buffer,
         providedSignature: string
     ): Promise<boolean> {
-        const hmac = crypto.createHmac('sha256', this.secret);
-        hmac.update(messageId);
-        hmac.update(timestamp);
-        hmac.update(body);
-        const computedSignature = `sha256=${hmac.digest('hex')}`;
-        return crypto.timingSafeEqual(Buffer.from(computedSignature), Buffer.from(providedSignature));
+        const secrets = [this.secret];
+        if (this.previousSecret && this.previousSecret.expiresAt > Date.now()) {
+            secrets.push(this.previousSecret.secret);
+        }
+        const provided = Buffer.from(providedSignature);
+        return secrets.some(secret => {
+            const hmac = crypto.createHmac('sha256', secret);
+            hmac.update(messageId);
+            hmac.update(timestamp);
+            hmac.update(body);
+            const computed = Buffer.from(`sha256=${hmac.digest('hex')}`);
+            return computed.length === provided.length && crypto.timingSafeEqual(computed, provided);
+        });
     }
 
     public async getUserFromId(id: string): Promise<{ data: TwitchUser[] | null }> {
@@ -161,8 +298,11 @@ export class TwitchApiClient {
         return this.makeApiRequest(`users?login=${encodeURIComponent(login)}`);
     }
 
-    public async getStream(broadcasterId: string): Promise<{ data: TwitchStream[] | null }> {
-        if (!broadcasterId) return { data: null };
-        return this.makeApiRequest(`streams?user_id=${encodeURIComponent(broadcasterId)}`);
+    // Takes up to 100 broadcaster IDs at once, only the ones that are live come back
+    public async getStream(broadcasterIds: string | string[]): Promise<{ data: TwitchStream[] | null }> {
+        const ids = [broadcasterIds].flat().filter(Boolean);
+        if (ids.length === 0) return { data: null };
+        const query = ids.map(id => `user_id=${encodeURIComponent(id)}`).join('&');
+        return this.makeApiRequest(`streams?${query}&first=${ids.length}`);
     }
 }
\ No newline at end of file
@@ -1,4 +1,10 @@
 import { TwitchApiClient } from "./auth.js";
+import { getTwitchSessionId } from "./websocket.js";
+import { getActiveConfig, getChannelEntries } from "../../channels.js";
+import { logReconcileReport, reconcilePlatformSubscriptions } from "../../reconcile.js";
+import { createLogger } from "../../logger.js";
+
+const log = createLogger("Twitch");
 
 let client: TwitchApiClient | null = null;
 
@@ -10,37 +16,77 @@ const getClient = async (): Promise<TwitchApiClient> => {
   return client;
 };
 
+// Subscription types created for every tracked channel
+export const TWITCH_SUBSCRIPTION_TYPES = ['stream.online', 'stream.offline', 'channel.update'] as const;
+export type TwitchSubscriptionType = typeof TWITCH_SUBSCRIPTION_TYPES[number];
+
+const TWITCH_SUBSCRIPTION_VERSIONS: Record<TwitchSubscriptionType, string> = {
+  'stream.online': '1',
+  'stream.offline': '1',
+  'channel.update': '2'
+};
+
+// After a rotation the callback URL carries the secret generation, so a replacement subscription can exist next to
+// the one it replaces without Twitch rejecting it as a duplicate
+export const getTwitchCallbackUrl = (generation: number = client?.secretGeneration ?? 0): string => {
+  const url = process.env.NODE_ENV === 'development' ? `http://localhost:${process.env.PORT || 3000}/events/twitch` : `https://${process.env.HOSTNAME}/events/twitch`;
+  return generation > 0 ? `${url}?secret_generation=${generation}` : url;
+};
+
+// WebSocket subscriptions are tied to the session they were created on and end with it
+const getTwitchTransport = (client: TwitchApiClient): EventSubTransport => {
+  if (!client.usesWebSocket) return { method: 'webhook', callback: getTwitchCallbackUrl(client.secretGeneration) };
+  const sessionId = getTwitchSessionId();
+  if (!sessionId) throw new Error('No EventSub WebSocket session is connected');
+  return { method: 'websocket', session_id: sessionId };
+};
+
+// Subscriptions left over from another callback URL, an earlier secret or an earlier WebSocket session no longer deliver here
+export const isCurrentTwitchTransport = (transport: EventSubTransport): boolean => {
+  return transport.method === 'websocket'
+    ? transport.session_id === getTwitchSessionId()
+    : transport.callback === getTwitchCallbackUrl();
+};
+
 // --- SUBSCRIPTION MANAGEMENT ---
-export const createTwitchOnlineSubscription = async (broadcasterId: string): Promise<EventSubSubscription[]> => {
+export const createTwitchSubscription = async (type: TwitchSubscriptionType, broadcasterId: string): Promise<EventSubSubscription[]> => {
   const client = await getClient();
   if (!client.isAuthenticated) {
-    console.warn("[Twitch] Cannot create subscription: Not authenticated.");
+    log.warn("Cannot create subscription: Not authenticated.");
     return [];
   }
-  const callbackUrl = process.env.NODE_ENV === 'development' ? `http://localhost:${process.env.PORT || 3000}/events/twitch` : `https://${process.env.HOSTNAME}/events/twitch`;
   const sub = await client.createEventSubSubscription(
-    'stream.online',
-    '1',
+    type,
+    TWITCH_SUBSCRIPTION_VERSIONS[type],
     { broadcaster_user_id: broadcasterId },
-    callbackUrl
+    getTwitchTransport(client)
   );
   return sub.data;
 };
 
-export const listTwitchSubscriptions = async (): Promise<EventSubSubscription[]> => {
+export const createTwitchOnlineSubscription = async (broadcasterId: string): Promise<EventSubSubscription[]> => {
+  return createTwitchSubscription('stream.online', broadcasterId);
+};
+
+export const createTwitchOfflineSubscription = async (broadcasterId: string): Promise<EventSubSubscription[]> => {
+  return createTwitchSubscription('stream.offline', broadcasterId);
+};
+
+// Without a status every subscription is returned, including failed and revoked ones
+export const listTwitchSubscriptions = async (status?: string): Promise<EventSubSubscription[]> => {
   const client = await getClient();
   if (!client.isAuthenticated) {
-    console.warn("[Twitch] Cannot list subscriptions: Not authenticated.");
+    log.warn("Cannot list subscriptions: Not authenticated.");
     return [];
   }
-  const { data: subs } = await client.listEventSubSubscriptions();
+  const { data: subs } = await client.listEventSubSubscriptions(status);
   return subs || [];
 };
 
 export const deleteTwitchSubscription = async (subscriptionId: string): Promise<void> => {
   const client = await getClient();
   if (!client.isAuthenticated) {
-    console.warn("[Twitch] Cannot delete subscription: Not authenticated.");
+    log.warn("Cannot delete subscription: Not authenticated.");
     return;
   }
   await client.deleteEventSubSubscription(subscriptionId);
@@ -49,7 +95,7 @@ export const deleteTwitchSubscription = async (subscriptionId: string): Promise<
 export const deleteAllTwitchSubscriptions = async (): Promise<number> => {
   const client = await getClient();
   if (!client.isAuthenticated) {
-    console.warn("[Twitch] Cannot delete subscriptions: Not authenticated.");
+    log.warn("Cannot delete subscriptions: Not authenticated.");
     return 0;
   }
   const { data: subs } = await client.listEventSubSubscriptions();
@@ -58,3 +104,51 @@ export const deleteAllTwitchSubscriptions = async (): Promise<number> => {
   }
   return subs ? subs.length : 0;
 };
+
+// --- SECRET ROTATION ---
+const SECRET_ROTATION_GRACE_MS = 10 * 60 * 1000;
+
+export interface SecretRotationResult {
+  recreated: number;
+  errors: string[];
+  // Set when a recreate or delete failed and the tracked channels were reconciled afterwards
+  reconciled?: boolean;
+}
+
+// Twitch keeps the secret a subscription was created with, so every subscription is recreated under the new one.
+// The replacement goes to the new generation's callback URL and is created before the old one is deleted, so the
+// channel is never without a subscription. An event sent while both exist arrives twice, once per subscription
+export const rotateTwitchSecret = async (): Promise<SecretRotationResult> => {
+  const client = await getClient();
+  // Only webhook subscriptions carry a secret
+  const subs = (await listTwitchSubscriptions()).filter(sub => sub.transport.method === 'webhook' && isCurrentTwitchTransport(sub.transport));
+  client.rotateSecret(SECRET_ROTATION_GRACE_MS);
+  const result: SecretRotationResult = { recreated: 0, errors: [] };
+
+  for (const sub of subs) {
+    const broadcasterId = sub.condition.broadcaster_user_id;
+    if (!TWITCH_SUBSCRIPTION_TYPES.includes(sub.type as TwitchSubscriptionType)) continue;
+    try {
+      await createTwitchSubscription(sub.type as TwitchSubscriptionType, broadcasterId);
+    } catch (err) {
+      result.errors.push(`Failed to recreate ${sub.type} for ${broadcasterId}: ${(err as Error).message}`);
+      continue;
+    }
+    result.recreated++;
+    try {
+      await client.deleteEventSubSubscription(sub.id);
+    } catch (err) {
+      result.errors.push(`Failed to delete the old ${sub.type} for ${broadcasterId}: ${(err as Error).message}`);
+    }
+  }
+
+  log.info(`Recreated ${result.recreated} subscription(s) under the new EventSub secret`);
+  result.errors.forEach(error => log.warn(error));
+
+  // The old subscription stops verifying once the grace period ends, the reconcile replaces or removes whatever is left
+  if (result.errors.length > 0) {
+    logReconcileReport(await reconcilePlatformSubscriptions('twitch', getChannelEntries(getActiveConfig(), 'twitch')));
+    result.reconciled = true;
+  }
+  return result;
+};
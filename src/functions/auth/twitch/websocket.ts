@@ -0,0 +1,164 @@
+import WebSocket from 'ws';
+import { createLogger } from '../../logger.js';
+
+const DEFAULT_WEBSOCKET_URL = 'wss://eventsub.wss.twitch.tv/ws';
+const WELCOME_TIMEOUT_MS = 10 * 1000;
+// Twitch's default, only used if a welcome leaves the keepalive window out
+const DEFAULT_KEEPALIVE_SECONDS = 10;
+// Allowance for network delay on top of the keepalive window Twitch announces
+const KEEPALIVE_GRACE_MS = 5 * 1000;
+const BASE_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 60 * 1000;
+
+const log = createLogger('Twitch');
+
+// --- TYPES ---
+export interface TwitchWebSocketHandlers {
+  // Notifications and revocations, the same messages the webhook route receives
+  onMessage(message: EventSubWebSocketMessage): void;
+  // A new session starts without subscriptions, unlike one reached through session_reconnect
+  onNewSession(sessionId: string): void;
+}
+
+let handlers: TwitchWebSocketHandlers | null = null;
+let socket: WebSocket | null = null;
+let sessionId: string | null = null;
+let keepaliveTimer: NodeJS.Timeout | null = null;
+let reconnectTimer: NodeJS.Timeout | null = null;
+let reconnectAttempts = 0;
+// Set once the first connection attempt is over, the session created during startup is subscribed by the startup reconcile
+let started = false;
+
+// Overridable so the connection flow can be pointed at a local server
+export const getTwitchWebSocketUrl = (): string => process.env.TWITCH_EVENTSUB_WEBSOCKET_URL || DEFAULT_WEBSOCKET_URL;
+
+export const getTwitchSessionId = (): string | null => sessionId;
+
+// --- CONNECTION ---
+const resetKeepalive = (ws: WebSocket, keepaliveSeconds: number): void => {
+  if (keepaliveTimer) clearTimeout(keepaliveTimer);
+  keepaliveTimer = setTimeout(() => {
+    log.warn(`No EventSub WebSocket message within ${keepaliveSeconds}s, reconnecting`);
+    dropSocket(ws);
+  }, keepaliveSeconds * 1000 + KEEPALIVE_GRACE_MS);
+};
+
+// Forget the current connection and start over with a new session
+const dropSocket = (ws: WebSocket): void => {
+  if (ws !== socket) return;
+  socket = null;
+  sessionId = null;
+  if (keepaliveTimer) clearTimeout(keepaliveTimer);
+  keepaliveTimer = null;
+  ws.close();
+  scheduleReconnect();
+};
+
+const scheduleReconnect = (): void => {
+  if (reconnectTimer) return;
+  const delay = Math.min(BASE_RECONNECT_DELAY_MS * 2 ** reconnectAttempts, MAX_RECONNECT_DELAY_MS);
+  reconnectAttempts++;
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    openSocket(getTwitchWebSocketUrl(), false).catch(err => {
+      log.warn(`EventSub WebSocket connection failed, retrying: ${(err as Error).message}`);
+      scheduleReconnect();
+    });
+  }, delay);
+};
+
+// Resolves once Twitch has welcomed the connection. A reconnect URL carries the subscriptions of the
+// session that asked for it, so the old socket stays open until the new one takes over
+const openSocket = (url: string, isReconnect: boolean): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const ws = new WebSocket(url);
+    let welcomed = false;
+    let keepaliveSeconds = 0;
+
+    const welcomeTimer = setTimeout(() => {
+      ws.close();
+      reject(new Error(`No session_welcome from ${url} within ${WELCOME_TIMEOUT_MS / 1000}s`));
+    }, WELCOME_TIMEOUT_MS);
+
+    ws.on('message', (data) => {
+      let message: EventSubWebSocketMessage;
+      try {
+        message = JSON.parse(data.toString());
+      } catch (err) {
+        log.warn('Ignored malformed EventSub WebSocket message', { err });
+        return;
+      }
+      const { metadata, payload } = message;
+      if (welcomed && ws === socket) resetKeepalive(ws, keepaliveSeconds);
+
+      switch (metadata.message_type) {
+        case 'session_welcome': {
+          const session = payload.session!;
+          const previous = socket;
+          welcomed = true;
+          keepaliveSeconds = session.keepalive_timeout_seconds ?? DEFAULT_KEEPALIVE_SECONDS;
+          socket = ws;
+          sessionId = session.id;
+          reconnectAttempts = 0;
+          clearTimeout(welcomeTimer);
+          resetKeepalive(ws, keepaliveSeconds);
+          if (previous && previous !== ws) previous.close();
+          log.info(`EventSub WebSocket session ${session.id} ${isReconnect ? 'resumed' : 'started'}, keepalive ${keepaliveSeconds}s`);
+          if (!isReconnect && started) handlers?.onNewSession(session.id);
+          resolve();
+          break;
+        }
+        case 'session_keepalive':
+          break;
+        case 'session_reconnect': {
+          const reconnectUrl = payload.session?.reconnect_url;
+          if (!reconnectUrl || ws !== socket) break;
+          log.info('Twitch asked to move the EventSub WebSocket session, reconnecting');
+          openSocket(reconnectUrl, true).catch(err => {
+            // Twitch closes the old connection itself, which starts a new session from scratch
+            log.warn(`Failed to follow session_reconnect: ${(err as Error).message}`);
+          });
+          break;
+        }
+        case 'notification':
+        case 'revocation':
+          if (ws === socket) handlers?.onMessage(message);
+          break;
+        default:
+          log.warn(`Received unhandled EventSub WebSocket message: ${metadata.message_type}`);
+      }
+    });
+
+    ws.on('close', (code, reasonBuffer) => {
+      const reason = reasonBuffer.toString();
+      clearTimeout(welcomeTimer);
+      if (!welcomed) {
+        reject(new Error(`Connection to ${url} closed before session_welcome (${code}${reason ? ` ${reason}` : ''})`));
+        return;
+      }
+      if (ws !== socket) return;
+      log.warn(`EventSub WebSocket closed (${code}${reason ? ` ${reason}` : ''}), reconnecting`, { code });
+      dropSocket(ws);
+    });
+
+    // A failed connection is followed by a close event, which settles the promise
+    ws.on('error', (err) => {
+      log.debug(`EventSub WebSocket error on ${url}`, { err });
+    });
+  });
+};
+
+// --- ENTRY POINT ---
+export const connectTwitchWebSocket = async (eventHandlers: TwitchWebSocketHandlers): Promise<void> => {
+  handlers = eventHandlers;
+  try {
+    await openSocket(getTwitchWebSocketUrl(), false);
+  } catch (err) {
+    log.error('Failed to connect to EventSub WebSocket, retrying in the background', { err });
+    scheduleReconnect();
+  } finally {
+    started = true;
+  }
+};
+
+export const isTwitchWebSocketConnected = (): boolean => sessionId !== null;
@@ -0,0 +1,132 @@
+import crypto from 'crypto';
+import { readDataFile, writeDataFile } from '../../storage.js';
+import { createLogger } from '../../logger.js';
+
+const log = createLogger('YouTube');
+
+const SECRET_FILE = 'youtube-websub.json';
+
+interface YouTubeApiConfig {
+  apiKey: string;
+  apiBaseUrl: string;
+  hubUrl: string;
+}
+
+export class YouTubeApiClient {
+  private static readonly API_BASE_URL = 'https://www.googleapis.com/youtube/v3';
+  private static readonly HUB_URL = 'https://pubsubhubbub.appspot.com/subscribe';
+
+  private static instance: YouTubeApiClient | null = null;
+  private static instancePromise: Promise<YouTubeApiClient> | null = null;
+
+  private config: YouTubeApiConfig;
+  private secret: string;
+
+  private constructor(config: YouTubeApiConfig) {
+    this.config = config;
+    this.secret = this.loadSecret();
+  }
+
+  public static async getInstance(): Promise<YouTubeApiClient> {
+    if (YouTubeApiClient.instance) return YouTubeApiClient.instance;
+    if (YouTubeApiClient.instancePromise) return YouTubeApiClient.instancePromise;
+    YouTubeApiClient.instancePromise = (async () => {
+      const YOUTUBE_API_KEY = process.env.YOUTUBE_API_KEY;
+
+      if (!YOUTUBE_API_KEY) {
+        log.warn('Missing YOUTUBE_API_KEY. YouTube integrations disabled.');
+      }
+
+      // Base URLs can point at a local stand-in for testing
+      const client = new YouTubeApiClient({
+        apiKey: YOUTUBE_API_KEY || '',
+        apiBaseUrl: process.env.YOUTUBE_API_BASE_URL || YouTubeApiClient.API_BASE_URL,
+        hubUrl: process.env.YOUTUBE_HUB_URL || YouTubeApiClient.HUB_URL
+      });
+      YouTubeApiClient.instance = client;
+      return client;
+    })();
+    return YouTubeApiClient.instancePromise;
+  }
+
+  // The hub keeps the secret for the lifetime of a lease, so it must survive restarts
+  private loadSecret(): string {
+    if (process.env.YOUTUBE_WEBSUB_SECRET) return process.env.YOUTUBE_WEBSUB_SECRET;
+    const stored = readDataFile<{ secret?: string }>(SECRET_FILE, {});
+    if (stored.secret) return stored.secret;
+    const secret = crypto.randomBytes(32).toString('hex');
+    writeDataFile(SECRET_FILE, { secret });
+    return secret;
+  }
+
+  public get isAuthenticated(): boolean {
+    return Boolean(this.config.apiKey);
+  }
+
+  // --- DATA API ---
+  private async makeApiRequest<T>(endpoint: string, params: Record<string, string>): Promise<T> {
+    if (!this.config.apiKey) throw new Error('YouTube API key not set');
+    const query = new URLSearchParams({ ...params, key: this.config.apiKey });
+    const response = await fetch(`${this.config.apiBaseUrl}/${endpoint}?${query}`);
+    if (!response.ok) throw new Error(`[YouTube] API Error: ${response.status} - ${await response.text()}`);
+    return (await response.json()) as T;
+  }
+
+  // Accepts a channel ID (UC...) or a handle (@name)
+  public async getChannel(identifier: string): Promise<YouTubeChannel | null> {
+    try {
+      const lookup: Record<string, string> = /^UC[\w-]{22}$/.test(identifier)
+        ? { id: identifier }
+        : { forHandle: identifier.startsWith('@') ? identifier : `@${identifier}` };
+      const response = await this.makeApiRequest<{ items?: YouTubeChannel[] }>('channels', { part: 'snippet,brandingSettings', ...lookup });
+      return response.items?.[0] || null;
+    } catch (err) {
+      log.warn(`Error fetching channel info for ${identifier}`, { err });
+      return null;
+    }
+  }
+
+  public async getVideo(videoId: string): Promise<YouTubeVideo | null> {
+    const response = await this.makeApiRequest<{ items?: YouTubeVideo[] }>('videos', { part: 'snippet,liveStreamingDetails', id: videoId });
+    return response.items?.[0] || null;
+  }
+
+  public async getVideoCategory(categoryId: string): Promise<string | null> {
+    try {
+      const response = await this.makeApiRequest<{ items?: { snippet: { title: string } }[] }>('videoCategories', { part: 'snippet', id: categoryId });
+      return response.items?.[0]?.snippet.title || null;
+    } catch (err) {
+      log.warn(`Error fetching video category ${categoryId}`, { err });
+      return null;
+    }
+  }
+
+  // --- WEBSUB ---
+  public async sendHubRequest(mode: 'subscribe' | 'unsubscribe', topic: string, callbackUrl: string, leaseSeconds?: number): Promise<void> {
+    const params = new URLSearchParams({
+      'hub.mode': mode,
+      'hub.topic': topic,
+      'hub.callback': callbackUrl,
+      'hub.verify': 'async',
+      'hub.secret': this.secret
+    });
+    if (leaseSeconds) params.set('hub.lease_seconds', leaseSeconds.toString());
+
+    const response = await fetch(this.config.hubUrl, {
+      method: 'POST',
+      body: params,
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' }
+    });
+    if (!response.ok) {
+      throw new Error(`[YouTube] Hub ${mode} request failed: ${response.status} - ${await response.text()}`);
+    }
+  }
+
+  public verifyWebSubSignature(body: Buffer, providedSignature: string): boolean {
+    const [algorithm, signature] = providedSignature.split('=');
+    if (!signature || !['sha1', 'sha256', 'sha384', 'sha512'].includes(algorithm)) return false;
+    const computed = crypto.createHmac(algorithm, this.secret).update(body).digest('hex');
+    if (computed.length !== signature.length) return false;
+    return crypto.timingSafeEqual(Buffer.from(computed), Buffer.from(signature));
+  }
+}
@@ -0,0 +1,149 @@
+import { YouTubeApiClient } from "./auth.js";
+import { readDataFile, writeDataFile } from "../../storage.js";
+import { createLogger } from "../../logger.js";
+
+const log = createLogger("YouTube");
+
+const SUBSCRIPTIONS_FILE = 'youtube-subscriptions.json';
+const LEASE_SECONDS = 10 * 24 * 60 * 60;
+const RENEW_BEFORE_MS = 24 * 60 * 60 * 1000;
+const RENEW_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+let client: YouTubeApiClient | null = null;
+
+// The hub has no listing API, so leases are tracked locally
+export interface YouTubeSubscription {
+  channelId: string;
+  topic: string;
+  requestedAt: string;
+  verifiedAt?: string;
+  expiresAt?: string;
+}
+
+const getClient = async (): Promise<YouTubeApiClient> => {
+  if (!client) {
+    client = await YouTubeApiClient.getInstance();
+  }
+  return client;
+};
+
+const loadSubscriptions = (): Record<string, YouTubeSubscription> => {
+  return readDataFile<Record<string, YouTubeSubscription>>(SUBSCRIPTIONS_FILE, {});
+};
+
+const saveSubscriptions = (subscriptions: Record<string, YouTubeSubscription>): void => {
+  writeDataFile(SUBSCRIPTIONS_FILE, subscriptions);
+};
+
+export const getYouTubeCallbackUrl = (): string => {
+  return process.env.NODE_ENV === 'development' ? `http://localhost:${process.env.PORT || 3000}/events/youtube` : `https://${process.env.HOSTNAME}/events/youtube`;
+};
+
+export const getYouTubeTopic = (channelId: string): string => {
+  return `https://www.youtube.com/xml/feeds/videos.xml?channel_id=${encodeURIComponent(channelId)}`;
+};
+
+export const getChannelIdFromTopic = (topic: string): string | null => {
+  try {
+    return new URL(topic).searchParams.get('channel_id');
+  } catch {
+    return null;
+  }
+};
+
+// Pull video entries out of a hub notification; the feed format is fixed so no XML parser is needed.
+// Deleted videos arrive as at:deleted-entry and are skipped here.
+export const parseYouTubeFeed = (xml: string): YouTubeFeedEntry[] => {
+  const entries: YouTubeFeedEntry[] = [];
+  for (const [, entry] of xml.matchAll(/<entry>([\s\S]*?)<\/entry>/g)) {
+    const videoId = /<yt:videoId>([^<]+)<\/yt:videoId>/.exec(entry)?.[1];
+    const channelId = /<yt:channelId>([^<]+)<\/yt:channelId>/.exec(entry)?.[1];
+    if (videoId && channelId) {
+      entries.push({ videoId: videoId.trim(), channelId: channelId.trim() });
+    }
+  }
+  return entries;
+};
+
+// --- SUBSCRIPTION MANAGEMENT ---
+export const createYouTubeSubscription = async (channelId: string): Promise<YouTubeSubscription | null> => {
+  const client = await getClient();
+  if (!client.isAuthenticated) {
+    log.warn("Cannot create subscription: Not authenticated.");
+    return null;
+  }
+  const topic = getYouTubeTopic(channelId);
+  await client.sendHubRequest('subscribe', topic, getYouTubeCallbackUrl(), LEASE_SECONDS);
+
+  const subscriptions = loadSubscriptions();
+  subscriptions[channelId] = { ...subscriptions[channelId], channelId, topic, requestedAt: new Date().toISOString() };
+  saveSubscriptions(subscriptions);
+  return subscriptions[channelId];
+};
+
+export const listYouTubeSubscriptions = async (): Promise<YouTubeSubscription[]> => {
+  return Object.values(loadSubscriptions());
+};
+
+export const deleteYouTubeSubscription = async (channelId: string): Promise<void> => {
+  const subscriptions = loadSubscriptions();
+  const subscription = subscriptions[channelId];
+  delete subscriptions[channelId];
+  saveSubscriptions(subscriptions);
+
+  const client = await getClient();
+  if (!client.isAuthenticated) {
+    log.warn("Cannot delete subscription: Not authenticated.");
+    return;
+  }
+  await client.sendHubRequest('unsubscribe', subscription?.topic || getYouTubeTopic(channelId), getYouTubeCallbackUrl());
+};
+
+// Called when the hub verifies intent; only requests we made should be confirmed
+export const confirmYouTubeSubscription = (mode: string, topic: string, leaseSeconds?: number): boolean => {
+  const channelId = getChannelIdFromTopic(topic);
+  if (!channelId) return false;
+
+  const subscriptions = loadSubscriptions();
+  const subscription = subscriptions[channelId];
+
+  if (mode === 'unsubscribe') {
+    return !subscription;
+  }
+  if (mode !== 'subscribe' || !subscription) {
+    return false;
+  }
+
+  const now = Date.now();
+  subscription.verifiedAt = new Date(now).toISOString();
+  subscription.expiresAt = new Date(now + (leaseSeconds || LEASE_SECONDS) * 1000).toISOString();
+  saveSubscriptions(subscriptions);
+  return true;
+};
+
+export const isYouTubeSubscriptionExpiring = (subscription: YouTubeSubscription): boolean => {
+  if (!subscription.expiresAt) return false;
+  return new Date(subscription.expiresAt).getTime() - Date.now() < RENEW_BEFORE_MS;
+};
+
+// --- LEASE RENEWAL ---
+export const renewYouTubeSubscriptions = async (): Promise<number> => {
+  const expiring = (await listYouTubeSubscriptions()).filter(isYouTubeSubscriptionExpiring);
+  for (const subscription of expiring) {
+    try {
+      await createYouTubeSubscription(subscription.channelId);
+    } catch (err) {
+      log.error(`Failed to renew subscription for ${subscription.channelId}`, { err });
+    }
+  }
+  return expiring.length;
+};
+
+export const startYouTubeLeaseRenewal = (): void => {
+  setInterval(async () => {
+    const count = await renewYouTubeSubscriptions();
+    if (count > 0) {
+      log.info(`Renewed ${count} expiring subscription(s)`);
+    }
+  }, RENEW_CHECK_INTERVAL_MS).unref();
+};
@@ -0,0 +1,156 @@
+import fs from 'fs';
+import { getDataPath, writeDataFile } from './storage.js';
+import { validateTemplates } from './templates.js';
+import type { AlertTemplate, AlertTemplates } from './templates.js';
+import { validateMentions } from './mentions.js';
+import type { MentionsConfig } from './mentions.js';
+import { validateCooldown } from './cooldown.js';
+import type { CooldownConfig } from './cooldown.js';
+import { validateNotifiers } from './notifiers/index.js';
+import type { NotifierConfig } from './notifiers/types.js';
+
+export type Platform = 'twitch' | 'kick' | 'youtube';
+export const PLATFORMS: Platform[] = ['twitch', 'kick', 'youtube'];
+
+// --- TYPES ---
+export interface ChannelEntry {
+  name: string;
+  webhooks?: string[];
+  notifiers?: NotifierConfig[];
+  template?: AlertTemplate;
+  mentions?: MentionsConfig;
+  cooldown?: CooldownConfig;
+}
+
+export type ChannelConfigEntry = string | ChannelEntry;
+
+export interface ChannelsConfig {
+  templates?: AlertTemplates;
+  twitch?: ChannelConfigEntry[];
+  kick?: ChannelConfigEntry[];
+  youtube?: ChannelConfigEntry[];
+}
+
+// Channels keyed by platform and broadcaster ID, populated as subscriptions are created
+const trackedChannels = new Map<string, ChannelEntry>();
+
+// Last config that loaded and validated successfully
+let activeConfig: ChannelsConfig = { twitch: [], kick: [], youtube: [] };
+
+const channelKey = (platform: Platform, userId: string | number): string => `${platform}:${userId}`;
+
+// --- CONFIG LOADING ---
+export const getChannelsPath = (): string => getDataPath('channels.json');
+
+export const normalizeChannelEntry = (entry: ChannelConfigEntry): ChannelEntry => {
+  if (typeof entry === 'string') {
+    return { name: entry };
+  }
+  if (!entry || typeof entry.name !== 'string' || !entry.name) {
+    throw new Error(`Invalid channel entry: ${JSON.stringify(entry)}`);
+  }
+  if (entry.webhooks !== undefined && (!Array.isArray(entry.webhooks) || entry.webhooks.some(url => typeof url !== 'string'))) {
+    throw new Error(`Invalid webhooks for channel ${entry.name}: expected an array of URLs`);
+  }
+  if (entry.notifiers !== undefined) {
+    validateNotifiers(entry.notifiers, `channel ${entry.name}`);
+  }
+  if (entry.mentions !== undefined) {
+    validateMentions(entry.mentions, `channel ${entry.name}`);
+  }
+  if (entry.cooldown !== undefined) {
+    validateCooldown(entry.cooldown, `channel ${entry.name}`);
+  }
+  return entry;
+};
+
+// Validate the whole config up front so a bad file fails at load rather than per-event
+export const validateChannelsConfig = (config: unknown): ChannelsConfig => {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw new Error('Channels config must be a JSON object');
+  }
+  const channelsConfig = config as ChannelsConfig;
+  for (const platform of PLATFORMS) {
+    const entries = channelsConfig[platform];
+    if (entries === undefined) continue;
+    if (!Array.isArray(entries)) {
+      throw new Error(`Channels config "${platform}" must be an array`);
+    }
+    const names = new Set<string>();
+    for (const entry of entries.map(normalizeChannelEntry)) {
+      const name = entry.name.toLowerCase();
+      if (names.has(name)) {
+        throw new Error(`Duplicate ${platform} channel: ${entry.name}`);
+      }
+      names.add(name);
+    }
+  }
+  validateTemplates(channelsConfig.templates, Object.fromEntries(PLATFORMS.map(platform => [platform, getChannelEntries(channelsConfig, platform)])));
+  return channelsConfig;
+};
+
+export const loadChannelsConfig = (channelsPath: string = getChannelsPath()): ChannelsConfig => {
+  if (!fs.existsSync(channelsPath)) {
+    throw new Error(`Channels file not found at ${channelsPath}`);
+  }
+  let config: unknown;
+  try {
+    config = JSON.parse(fs.readFileSync(channelsPath, 'utf-8'));
+  } catch (err) {
+    throw new Error(`Channels file at ${channelsPath} is not valid JSON: ${(err as Error).message}`, { cause: err });
+  }
+  return validateChannelsConfig(config);
+};
+
+export const getActiveConfig = (): ChannelsConfig => activeConfig;
+
+export const setActiveConfig = (config: ChannelsConfig): void => {
+  activeConfig = config;
+};
+
+// Persist the config to channels.json; the file watcher sees no difference and leaves subscriptions alone
+export const saveChannelsConfig = (config: ChannelsConfig): void => {
+  setActiveConfig(validateChannelsConfig(config));
+  writeDataFile('channels.json', config);
+};
+
+export const getChannelEntries = (config: ChannelsConfig, platform: Platform): ChannelEntry[] => {
+  return (config[platform] || []).map(normalizeChannelEntry);
+};
+
+// --- TRACKED CHANNELS ---
+export const registerChannel = (platform: Platform, userId: string | number, entry: ChannelEntry): void => {
+  trackedChannels.set(channelKey(platform, userId), entry);
+};
+
+export const unregisterChannel = (platform: Platform, userId: string | number): void => {
+  trackedChannels.delete(channelKey(platform, userId));
+};
+
+export const findChannelId = (platform: Platform, name: string): string | undefined => {
+  for (const [key, entry] of trackedChannels) {
+    const [keyPlatform, userId] = key.split(':');
+    if (keyPlatform === platform && entry.name.toLowerCase() === name.toLowerCase()) {
+      return userId;
+    }
+  }
+  return undefined;
+};
+
+export const getChannel = (platform: Platform, userId: string | number): ChannelEntry | undefined => {
+  return trackedChannels.get(channelKey(platform, userId));
+};
+
+// Resolve where a channel's alerts go; "webhooks" is shorthand for Discord notifiers.
+// Channels without either fall back to DISCORD_WEBHOOK_URL
+export const getNotifierConfigs = (platform: Platform, userId: string | number): NotifierConfig[] => {
+  const channel = getChannel(platform, userId);
+  const notifiers: NotifierConfig[] = [
+    ...(channel?.webhooks || []).map(url => ({ type: 'discord' as const, url })),
+    ...(channel?.notifiers || [])
+  ];
+  if (notifiers.length > 0) {
+    return notifiers;
+  }
+  return process.env.DISCORD_WEBHOOK_URL ? [{ type: 'discord', url: process.env.DISCORD_WEBHOOK_URL }] : [];
+};
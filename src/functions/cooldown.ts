@@ -0,0 +1,105 @@
+import { getChannel } from './channels.js';
+import type { Platform } from './channels.js';
+import { getActiveAlert, upgradeAlert } from './alerts.js';
+import type { ActiveAlert } from './alerts.js';
+import { readDataFile, writeDataFile } from './storage.js';
+
+const STREAM_STATE_FILE = 'stream-state.json';
+
+// --- TYPES ---
+export type CooldownMode = 'ignore' | 'refresh';
+
+export interface CooldownConfig {
+  seconds?: number;
+  mode?: CooldownMode;
+}
+
+interface StreamState {
+  lastLive?: string;
+  lastOffline?: string;
+  // The ended alert, kept so a reconnect can bring the same message back to life
+  lastAlert?: ActiveAlert;
+}
+
+export interface CooldownDecision {
+  mode: CooldownMode;
+  previous?: ActiveAlert;
+}
+
+let streamStates: Record<string, StreamState> | null = null;
+
+const stateKey = (platform: Platform, userId: string): string => `${platform}:${userId}`;
+
+const loadStreamStates = (): Record<string, StreamState> => {
+  if (!streamStates) {
+    streamStates = readDataFile<Record<string, StreamState>>(STREAM_STATE_FILE, {});
+    for (const state of Object.values(streamStates)) {
+      if (state.lastAlert) state.lastAlert = upgradeAlert(state.lastAlert);
+    }
+  }
+  return streamStates;
+};
+
+const updateStreamState = (platform: Platform, userId: string, update: Partial<StreamState>): void => {
+  const states = loadStreamStates();
+  const key = stateKey(platform, userId);
+  states[key] = { ...states[key], ...update };
+  writeDataFile(STREAM_STATE_FILE, states);
+};
+
+// --- CONFIG ---
+export const validateCooldown = (cooldown: CooldownConfig, source: string): void => {
+  if (!cooldown || typeof cooldown !== 'object' || Array.isArray(cooldown)) {
+    throw new Error(`Cooldown for ${source} must be an object`);
+  }
+  if (cooldown.seconds !== undefined && (typeof cooldown.seconds !== 'number' || cooldown.seconds < 0)) {
+    throw new Error(`Cooldown seconds for ${source} must be a positive number`);
+  }
+  if (cooldown.mode !== undefined && cooldown.mode !== 'ignore' && cooldown.mode !== 'refresh') {
+    throw new Error(`Cooldown mode for ${source} must be "ignore" or "refresh"`);
+  }
+};
+
+// Channel settings override LIVE_COOLDOWN_SECONDS and LIVE_COOLDOWN_MODE
+const getCooldown = (platform: Platform, userId: string): Required<CooldownConfig> => {
+  const cooldown = getChannel(platform, userId)?.cooldown;
+  const envSeconds = Number(process.env.LIVE_COOLDOWN_SECONDS);
+  return {
+    seconds: cooldown?.seconds ?? (Number.isFinite(envSeconds) && envSeconds > 0 ? envSeconds : 0),
+    mode: cooldown?.mode ?? (process.env.LIVE_COOLDOWN_MODE === 'ignore' ? 'ignore' : 'refresh')
+  };
+};
+
+// --- STREAM STATE ---
+export const recordLive = (platform: Platform, userId: string): void => {
+  updateStreamState(platform, userId, { lastLive: new Date().toISOString() });
+};
+
+// When the channel last went live as far as alerts are concerned, 0 if never
+export const getLastLive = (platform: Platform, userId: string): number => {
+  const lastLive = loadStreamStates()[stateKey(platform, userId)]?.lastLive;
+  return lastLive ? new Date(lastLive).getTime() : 0;
+};
+
+export const recordOffline = (platform: Platform, userId: string, endedAlert?: ActiveAlert): void => {
+  updateStreamState(platform, userId, { lastOffline: new Date().toISOString(), lastAlert: endedAlert });
+};
+
+// Decide whether a go-live event is a reconnect inside the cooldown window
+export const checkCooldown = (platform: Platform, userId: string): CooldownDecision | null => {
+  const { seconds, mode } = getCooldown(platform, userId);
+  if (seconds <= 0) return null;
+
+  const state = loadStreamStates()[stateKey(platform, userId)];
+  const windowStart = Date.now() - seconds * 1000;
+
+  // Still live as far as we know, e.g. the offline event never arrived
+  const active = getActiveAlert(platform, userId);
+  if (active) {
+    const lastLive = state?.lastLive ? new Date(state.lastLive).getTime() : 0;
+    return lastLive >= windowStart ? { mode, previous: active } : null;
+  }
+
+  const lastOffline = state?.lastOffline ? new Date(state.lastOffline).getTime() : 0;
+  return lastOffline >= windowStart ? { mode, previous: state?.lastAlert } : null;
+};
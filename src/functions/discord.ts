@@ -0,0 +1,177 @@
+import type { AllowedMentions } from './mentions.js';
+import { discordRequests } from './metrics.js';
+import { createLogger } from './logger.js';
+
+const log = createLogger('Discord');
+
+// --- DISCORD WEBHOOK HELPERS ---
+export interface DiscordEmbedField {
+  name: string;
+  value: string;
+  inline: boolean;
+}
+
+export interface DiscordEmbed {
+  description: string;
+  fields: DiscordEmbedField[];
+  title: string;
+  author: {
+    name: string;
+    icon_url: string;
+  };
+  url: string;
+  image: {
+    url: string;
+  };
+  footer?: {
+    text: string;
+  };
+  timestamp: string;
+  color: number;
+}
+
+export interface DiscordMessage {
+  content: string;
+  type: string;
+  tts: boolean;
+  embeds: DiscordEmbed[];
+  username: string;
+  avatar_url: string;
+  allowed_mentions: AllowedMentions;
+}
+
+// Build a URL under the webhook, keeping any query params (e.g. thread_id) already on it
+const buildWebhookUrl = (webhookUrl: string, suffix: string = '', params: Record<string, string> = {}): string => {
+  const url = new URL(webhookUrl);
+  url.pathname = `${url.pathname.replace(/\/$/, '')}${suffix}`;
+  for (const [key, value] of Object.entries(params)) {
+    url.searchParams.set(key, value);
+  }
+  return url.toString();
+};
+
+export class DiscordApiError extends Error {
+  constructor(public status: number, public body: string) {
+    super(`Discord API Error: ${status} - ${body}`);
+    this.name = 'DiscordApiError';
+  }
+}
+
+// --- RATE LIMITING ---
+const MAX_ATTEMPTS = 5;
+const SERVER_ERROR_BACKOFF_MS = 1000;
+
+// Tail of each webhook's request chain, and when its rate limit bucket frees up again
+const webhookQueues = new Map<string, Promise<unknown>>();
+const rateLimitResets = new Map<string, number>();
+let lastSuccessfulPostAt: string | null = null;
+
+const sleep = (ms: number) => new Promise(res => setTimeout(res, ms));
+
+// Requests to one webhook share a bucket, whatever message they target
+const getQueueKey = (webhookUrl: string): string => {
+  const url = new URL(webhookUrl);
+  return `${url.origin}${url.pathname.replace(/\/messages\/.*$/, '').replace(/\/$/, '')}`;
+};
+
+// Logs identify the webhook by ID only, the token after it grants posting rights
+const describeWebhook = (key: string): string => {
+  const match = /\/webhooks\/(\d+)/.exec(key);
+  return match ? `webhook ${match[1]}` : 'webhook';
+};
+
+// Requests to the same webhook run one at a time so a burst of alerts can't trip the rate limit
+const enqueue = <T>(key: string, task: () => Promise<T>): Promise<T> => {
+  const previous = webhookQueues.get(key) ?? Promise.resolve();
+  const result = previous.then(task);
+  const tail = result.catch(() => undefined);
+  webhookQueues.set(key, tail);
+  tail.then(() => {
+    if (webhookQueues.get(key) === tail) webhookQueues.delete(key);
+  });
+  return result;
+};
+
+const updateRateLimit = (key: string, headers: Headers): void => {
+  const remaining = headers.get('x-ratelimit-remaining');
+  const resetAfter = Number(headers.get('x-ratelimit-reset-after'));
+  if (remaining === '0' && Number.isFinite(resetAfter)) {
+    rateLimitResets.set(key, Date.now() + resetAfter * 1000);
+  } else {
+    rateLimitResets.delete(key);
+  }
+};
+
+// Discord sends retry_after in the body; the Retry-After header is the fallback
+const getRetryAfter = (headers: Headers, body: string): number => {
+  try {
+    const retryAfter = Number(JSON.parse(body).retry_after);
+    if (Number.isFinite(retryAfter)) return retryAfter * 1000;
+  } catch {
+    // Not JSON, e.g. a proxy error page
+  }
+  const header = Number(headers.get('retry-after'));
+  return Number.isFinite(header) ? header * 1000 : SERVER_ERROR_BACKOFF_MS;
+};
+
+const sendWebhookRequest = (url: string, method: 'POST' | 'PATCH' | 'DELETE', body?: object): Promise<Response> => {
+  const key = getQueueKey(url);
+
+  return enqueue(key, async () => {
+    for (let attempt = 1; ; attempt++) {
+      const waitMs = (rateLimitResets.get(key) ?? 0) - Date.now();
+      if (waitMs > 0) await sleep(waitMs);
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method,
+          headers: { 'Content-Type': 'application/json' },
+          body: body ? JSON.stringify(body) : undefined
+        });
+      } catch (err) {
+        // No response at all, e.g. DNS failure or a reset connection
+        discordRequests.inc({ method, result: 'failure', status: 'error' });
+        throw err;
+      }
+      discordRequests.inc({ method, result: response.ok ? 'success' : 'failure', status: String(response.status) });
+      updateRateLimit(key, response.headers);
+      if (response.ok) {
+        if (method === 'POST') lastSuccessfulPostAt = new Date().toISOString();
+        return response;
+      }
+
+      const text = await response.text();
+      const retryable = response.status === 429 || response.status >= 500;
+      if (!retryable) {
+        throw new DiscordApiError(response.status, text);
+      }
+      if (attempt >= MAX_ATTEMPTS) {
+        log.error(`Giving up on ${method} to ${describeWebhook(key)} after ${attempt} attempts: ${response.status} - ${text}`);
+        throw new DiscordApiError(response.status, text);
+      }
+
+      const delay = response.status === 429 ? getRetryAfter(response.headers, text) : SERVER_ERROR_BACKOFF_MS * 2 ** (attempt - 1);
+      log.warn(`${method} to ${describeWebhook(key)} returned ${response.status}, retrying in ${delay}ms (attempt ${attempt}/${MAX_ATTEMPTS})`);
+      await sleep(delay);
+    }
+  });
+};
+
+// Reported by the readiness endpoint
+export const getLastSuccessfulPost = (): string | null => lastSuccessfulPostAt;
+
+// Post a message and return its ID so it can be edited or deleted later
+export const postWebhookMessage = async (webhookUrl: string, message: object): Promise<string | null> => {
+  const response = await sendWebhookRequest(buildWebhookUrl(webhookUrl, '', { wait: 'true' }), 'POST', message);
+  const json = await response.json();
+  return json?.id ?? null;
+};
+
+export const editWebhookMessage = async (webhookUrl: string, messageId: string, message: object): Promise<void> => {
+  await sendWebhookRequest(buildWebhookUrl(webhookUrl, `/messages/${messageId}`), 'PATCH', message);
+};
+
+export const deleteWebhookMessage = async (webhookUrl: string, messageId: string): Promise<void> => {
+  await sendWebhookRequest(buildWebhookUrl(webhookUrl, `/messages/${messageId}`), 'DELETE');
+};
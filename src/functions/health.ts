@@ -0,0 +1,77 @@
+import { getActiveConfig, getChannelEntries } from './channels.js';
+import type { Platform } from './channels.js';
+import { getPlatforms } from './platforms/index.js';
+import type { PlatformHealthChecks } from './platforms/types.js';
+import { getLastAudit } from './audit.js';
+import { getLastSuccessfulPost } from './discord.js';
+import { getOutbox } from './outbox.js';
+
+// --- TYPES ---
+export interface PlatformHealth {
+  // Platforms without tracked channels are reported but can't fail readiness
+  required: boolean;
+  ready: boolean;
+  checks: PlatformHealthChecks;
+  subscriptions: {
+    total: number;
+    statuses: Record<string, number>;
+    problems: number;
+  } | null;
+}
+
+export interface ReadinessReport {
+  ready: boolean;
+  platforms: Partial<Record<Platform, PlatformHealth>>;
+  lastAuditAt: string | null;
+  lastDiscordSendAt: string | null;
+  outbox: {
+    pending: number;
+    deadLetters: number;
+    oldestPendingAt: string | null;
+  };
+}
+
+// --- CHECKS ---
+export const getLiveness = () => ({
+  status: 'ok',
+  uptimeSeconds: Math.round(process.uptime())
+});
+
+// A client that fails to initialize counts as a failed check rather than failing the whole report
+const getPlatformChecks = async (check: () => Promise<PlatformHealthChecks>): Promise<PlatformHealthChecks> => {
+  try {
+    return await check();
+  } catch {
+    return { initialized: false };
+  }
+};
+
+export const getReadiness = async (): Promise<ReadinessReport> => {
+  const config = getActiveConfig();
+  const audit = getLastAudit();
+  const platforms: ReadinessReport['platforms'] = {};
+
+  for (const adapter of getPlatforms()) {
+    const checks = await getPlatformChecks(() => adapter.getHealthChecks());
+    const report = audit.reports.find(item => item.platform === adapter.id);
+    platforms[adapter.id] = {
+      required: getChannelEntries(config, adapter.id).length > 0,
+      ready: Object.values(checks).every(Boolean),
+      checks,
+      subscriptions: report && !report.error ? { total: report.subscriptions, statuses: report.statuses, problems: report.findings.length } : null
+    };
+  }
+
+  const { pending, deadLetters } = getOutbox();
+  return {
+    ready: Object.values(platforms).every(platform => !platform.required || platform.ready),
+    platforms,
+    lastAuditAt: audit.checkedAt,
+    lastDiscordSendAt: getLastSuccessfulPost(),
+    outbox: {
+      pending: pending.length,
+      deadLetters: deadLetters.length,
+      oldestPendingAt: pending.length > 0 ? pending.reduce((oldest, item) => item.receivedAt < oldest ? item.receivedAt : oldest, pending[0].receivedAt) : null
+    }
+  };
+};
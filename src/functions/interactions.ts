@@ -0,0 +1,213 @@
+import crypto from 'crypto';
+import { PLATFORMS, findChannelId, getNotifierConfigs } from './channels.js';
+import type { Platform } from './channels.js';
+import { editWebhookMessage } from './discord.js';
+import { createNotifier } from './notifiers/index.js';
+import { ChannelManagementError, listTrackedChannels, trackChannel, untrackChannel } from './manage.js';
+import { ChannelNotFoundError } from './reconcile.js';
+import { NO_MENTIONS, sanitizeText } from './mentions.js';
+import { createLogger } from './logger.js';
+
+const DISCORD_API_BASE_URL = 'https://discord.com/api/v10';
+
+const log = createLogger('Discord');
+
+// Discord interaction and response types
+const PING = 1;
+const APPLICATION_COMMAND = 2;
+const PONG = 1;
+const CHANNEL_MESSAGE_WITH_SOURCE = 4;
+const DEFERRED_CHANNEL_MESSAGE_WITH_SOURCE = 5;
+const EPHEMERAL = 64;
+
+// --- TYPES ---
+interface InteractionOption {
+  name: string;
+  type: number;
+  value?: string;
+  options?: InteractionOption[];
+}
+
+export interface Interaction {
+  type: number;
+  application_id: string;
+  token: string;
+  member?: {
+    roles: string[];
+    user: { id: string; username: string };
+  };
+  data?: {
+    name: string;
+    options?: InteractionOption[];
+  };
+}
+
+// --- COMMAND DEFINITIONS ---
+const platformOption = {
+  type: 3,
+  name: 'platform',
+  description: 'Streaming platform',
+  required: true,
+  choices: PLATFORMS.map(platform => ({ name: platform, value: platform }))
+};
+
+const nameOption = {
+  type: 3,
+  name: 'name',
+  description: 'Channel name',
+  required: true
+};
+
+export const STREAM_COMMAND = {
+  name: 'stream',
+  description: 'Manage stream alerts',
+  // Hidden from members without Manage Server by default, role checks still apply
+  default_member_permissions: '32',
+  dm_permission: false,
+  options: [
+    { type: 1, name: 'add', description: 'Start tracking a channel', options: [platformOption, nameOption] },
+    { type: 1, name: 'remove', description: 'Stop tracking a channel', options: [platformOption, nameOption] },
+    { type: 1, name: 'list', description: 'List tracked channels' },
+    { type: 1, name: 'test', description: 'Send a test alert to a channel\'s notifiers', options: [platformOption, nameOption] }
+  ]
+};
+
+// Register the command definitions, scoped to a guild when given so changes apply immediately
+export const registerCommands = async (applicationId: string, botToken: string, guildId?: string): Promise<void> => {
+  const endpoint = guildId
+    ? `${DISCORD_API_BASE_URL}/applications/${applicationId}/guilds/${guildId}/commands`
+    : `${DISCORD_API_BASE_URL}/applications/${applicationId}/commands`;
+  const response = await fetch(endpoint, {
+    method: 'PUT',
+    headers: { 'Authorization': `Bot ${botToken}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify([STREAM_COMMAND])
+  });
+  if (!response.ok) {
+    throw new Error(`Discord API Error: ${response.status} - ${await response.text()}`);
+  }
+};
+
+// --- SIGNATURE VERIFICATION ---
+// Discord sends a raw 32-byte Ed25519 key, wrap it in the SPKI DER header Node expects
+const ED25519_SPKI_PREFIX = Buffer.from('302a300506032b6570032100', 'hex');
+
+export const verifyDiscordSignature = (timestamp: string, body: Buffer, signature: string): boolean => {
+  const publicKey = process.env.DISCORD_PUBLIC_KEY;
+  if (!publicKey) return false;
+  try {
+    const key = crypto.createPublicKey({
+      key: Buffer.concat([ED25519_SPKI_PREFIX, Buffer.from(publicKey, 'hex')]),
+      format: 'der',
+      type: 'spki'
+    });
+    return crypto.verify(null, Buffer.concat([Buffer.from(timestamp), body]), key, Buffer.from(signature, 'hex'));
+  } catch (err) {
+    log.warn('Failed to verify interaction signature', { err });
+    return false;
+  }
+};
+
+// --- COMMAND HANDLING ---
+const getAllowedRoleIds = (): string[] => {
+  return (process.env.DISCORD_ADMIN_ROLE_IDS || '').split(',').map(id => id.trim()).filter(Boolean);
+};
+
+const isAuthorized = (interaction: Interaction): boolean => {
+  const allowed = getAllowedRoleIds();
+  return Boolean(interaction.member?.roles.some(role => allowed.includes(role)));
+};
+
+const reply = (content: string) => ({
+  type: CHANNEL_MESSAGE_WITH_SOURCE,
+  // Discord rejects message content over 2000 characters
+  data: { content: content.slice(0, 2000), flags: EPHEMERAL, allowed_mentions: NO_MENTIONS }
+});
+
+const getOption = (options: InteractionOption[] | undefined, name: string): string => {
+  return options?.find(option => option.name === name)?.value ?? '';
+};
+
+const describeError = (err: unknown): string => {
+  if (err instanceof ChannelNotFoundError || err instanceof ChannelManagementError) {
+    return err.message;
+  }
+  log.error('Command failed', { err });
+  return `Something went wrong: ${(err as Error).message}`;
+};
+
+const runSubcommand = async (subcommand: string, platform: Platform, name: string): Promise<string> => {
+  try {
+    switch (subcommand) {
+      case 'add': {
+        const channel = await trackChannel(platform, { name });
+        return `Now tracking **${sanitizeText(channel.name)}** on ${platform}.`;
+      }
+      case 'remove': {
+        await untrackChannel(platform, name);
+        return `Stopped tracking **${sanitizeText(name)}** on ${platform}.`;
+      }
+      case 'test': {
+        const userId = findChannelId(platform, name);
+        if (!userId) return `${sanitizeText(name)} is not tracked on ${platform}.`;
+        const notifiers = getNotifierConfigs(platform, userId);
+        await Promise.all(notifiers.map(notifier => {
+          return createNotifier(notifier).sendText(`Test alert for ${sanitizeText(name)} (${platform}). Go-live alerts for this channel will be posted here.`);
+        }));
+        return `Sent a test alert for **${sanitizeText(name)}** to ${notifiers.length} notifier(s).`;
+      }
+      default:
+        return `Unknown subcommand: ${subcommand}`;
+    }
+  } catch (err) {
+    return describeError(err);
+  }
+};
+
+// Subscription changes can outlast Discord's 3 second window, so reply once the work is done
+const completeDeferred = async (interaction: Interaction, work: Promise<string>): Promise<void> => {
+  const content = await work;
+  const followUpUrl = `${DISCORD_API_BASE_URL}/webhooks/${interaction.application_id}/${interaction.token}`;
+  try {
+    await editWebhookMessage(followUpUrl, '@original', { content, allowed_mentions: NO_MENTIONS });
+  } catch (err) {
+    log.error('Failed to send interaction follow-up', { err });
+  }
+};
+
+export const handleInteraction = (interaction: Interaction): object => {
+  if (interaction.type === PING) {
+    return { type: PONG };
+  }
+
+  if (interaction.type !== APPLICATION_COMMAND || interaction.data?.name !== STREAM_COMMAND.name) {
+    return reply('Unknown command.');
+  }
+
+  if (!isAuthorized(interaction)) {
+    log.warn(`Rejected /stream command from ${interaction.member?.user.username ?? 'unknown user'}`);
+    return reply('You do not have permission to manage stream alerts.');
+  }
+
+  const [subcommand] = interaction.data.options || [];
+  if (!subcommand) {
+    return reply('Missing subcommand.');
+  }
+
+  if (subcommand.name === 'list') {
+    const channels = listTrackedChannels();
+    if (channels.length === 0) {
+      return reply('No channels are being tracked.');
+    }
+    return reply(channels.map(channel => `- ${channel.platform}: ${sanitizeText(channel.name)}`).join('\n'));
+  }
+
+  const platform = getOption(subcommand.options, 'platform') as Platform;
+  const name = getOption(subcommand.options, 'name');
+  if (!PLATFORMS.includes(platform) || !name) {
+    return reply('A platform and channel name are required.');
+  }
+
+  log.info(`${interaction.member?.user.username} ran /stream ${subcommand.name} ${platform} ${name}`);
+  completeDeferred(interaction, runSubcommand(subcommand.name, platform, name));
+  return { type: DEFERRED_CHANNEL_MESSAGE_WITH_SOURCE, data: { flags: EPHEMERAL } };
+};
@@ -0,0 +1,87 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+// --- TYPES ---
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// --- CORRELATION ---
+// Carries the platform message ID through the outbox, retries and notifier calls for one event
+const correlation = new AsyncLocalStorage<string>();
+
+export const withCorrelationId = <T>(correlationId: string | undefined, task: () => T): T => {
+  return correlationId ? correlation.run(correlationId, task) : task();
+};
+
+export const getCorrelationId = (): string | undefined => correlation.getStore();
+
+// --- REDACTION ---
+const SECRET_KEY = /token|secret|password|authorization|signature|api_?key/i;
+const REDACTED = '[redacted]';
+
+const SECRET_PATTERNS: [RegExp, string][] = [
+  // Discord webhook token, the ID in front of it is kept to tell webhooks apart
+  [/(\/webhooks\/\d+\/)[\w-]+/g, `$1${REDACTED}`],
+  [/(hooks\.slack\.com\/services\/)[\w/]+/g, `$1${REDACTED}`],
+  // Telegram bot tokens are part of the API path
+  [/(\/bot)\d+:[\w-]+/g, `$1${REDACTED}`],
+  [/(Bearer\s+)[\w.~+/-]+=*/gi, `$1${REDACTED}`],
+  [/([?&](?:access_token|client_secret|token|key|hub\.secret)=)[^&\s"']+/gi, `$1${REDACTED}`]
+];
+
+export const redact = (text: string): string => {
+  return SECRET_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+};
+
+const redactValue = (value: unknown, depth = 0): unknown => {
+  if (typeof value === 'string') return redact(value);
+  if (value instanceof Error) {
+    return { name: value.name, message: redact(value.message), ...(value.stack && { stack: redact(value.stack) }) };
+  }
+  if (value === null || typeof value !== 'object' || depth > 4) return value;
+  if (Array.isArray(value)) return value.map(item => redactValue(item, depth + 1));
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, SECRET_KEY.test(key) ? REDACTED : redactValue(item, depth + 1)]));
+};
+
+// --- OUTPUT ---
+// Read on every call, modules are loaded before app.ts applies the .env file
+const getMinLevel = (): number => LEVELS[process.env.LOG_LEVEL as LogLevel] ?? LEVELS.info;
+
+const formatPretty = (level: LogLevel, scope: string, message: string, fields: LogFields, correlationId?: string): string => {
+  const time = new Date().toISOString().slice(11, 23);
+  const id = correlationId ? ` (${correlationId})` : '';
+  const { err, ...rest } = fields;
+  const extra = Object.entries(rest).map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`).join(' ');
+  const stack = err && typeof err === 'object' ? `\n${(err as { stack?: string; message?: string }).stack ?? (err as { message?: string }).message}` : err ? ` err=${String(err)}` : '';
+  return `${time} ${level.toUpperCase().padEnd(5)} [${scope}]${id} ${message}${extra ? ` ${extra}` : ''}${stack}`;
+};
+
+const write = (level: LogLevel, scope: string, message: string, fields: LogFields = {}): void => {
+  if (LEVELS[level] < getMinLevel()) return;
+  const correlationId = getCorrelationId();
+  const safeMessage = redact(message);
+  const safeFields = redactValue(fields) as LogFields;
+
+  const line = process.env.NODE_ENV === 'development'
+    ? formatPretty(level, scope, safeMessage, safeFields, correlationId)
+    : JSON.stringify({ time: new Date().toISOString(), level, scope, message: safeMessage, ...(correlationId && { correlationId }), ...safeFields });
+
+  if (level === 'error') console.error(line);
+  else if (level === 'warn') console.warn(line);
+  else console.log(line);
+};
+
+export const createLogger = (scope: string): Logger => ({
+  debug: (message, fields) => write('debug', scope, message, fields),
+  info: (message, fields) => write('info', scope, message, fields),
+  warn: (message, fields) => write('warn', scope, message, fields),
+  error: (message, fields) => write('error', scope, message, fields)
+});
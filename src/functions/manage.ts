@@ -0,0 +1,74 @@
+import { PLATFORMS, findChannelId, getActiveConfig, getChannelEntries, normalizeChannelEntry, saveChannelsConfig, validateChannelsConfig } from './channels.js';
+import type { ChannelEntry, Platform } from './channels.js';
+import { addChannelSubscriptions, removeChannelSubscriptions } from './reconcile.js';
+import { getChannelStatus } from './revocations.js';
+import type { ChannelStatus } from './revocations.js';
+
+// --- TYPES ---
+export interface TrackedChannel extends ChannelEntry {
+  platform: Platform;
+  id: string | null;
+  // Set when the platform revoked a subscription and alerts need an operator to restore them
+  broken?: ChannelStatus['broken'];
+}
+
+export class ChannelManagementError extends Error {
+  constructor(public readonly code: 'already_tracked' | 'not_tracked' | 'invalid_channel', message: string) {
+    super(message);
+    this.name = 'ChannelManagementError';
+  }
+}
+
+const findEntryIndex = (entries: ChannelEntry[], name: string): number => {
+  return entries.findIndex(entry => entry.name.toLowerCase() === name.toLowerCase());
+};
+
+// --- CHANNEL MANAGEMENT ---
+export const listTrackedChannels = (platform?: Platform): TrackedChannel[] => {
+  const config = getActiveConfig();
+  const platforms = platform ? [platform] : PLATFORMS;
+  return platforms.flatMap(p => getChannelEntries(config, p).map(entry => {
+    const id = findChannelId(p, entry.name) ?? null;
+    const broken = id ? getChannelStatus(p, id)?.broken : undefined;
+    return { ...entry, platform: p, id, ...(broken && { broken }) };
+  }));
+};
+
+// Subscribe first so channels.json only ever lists channels that resolved
+export const trackChannel = async (platform: Platform, entry: ChannelEntry): Promise<TrackedChannel> => {
+  const config = getActiveConfig();
+  const entries = getChannelEntries(config, platform);
+  if (findEntryIndex(entries, entry.name) !== -1) {
+    throw new ChannelManagementError('already_tracked', `${entry.name} is already tracked on ${platform}`);
+  }
+
+  // Validated up front, a config that can't be saved would otherwise leave a subscription behind
+  const stored = Object.keys(entry).length > 1 ? entry : entry.name;
+  try {
+    validateChannelsConfig({ ...config, [platform]: [...(config[platform] || []), stored] });
+  } catch (err) {
+    throw new ChannelManagementError('invalid_channel', (err as Error).message);
+  }
+
+  const id = await addChannelSubscriptions(platform, entry);
+  // Re-read the config, it may have been reloaded while subscribing
+  const latest = getActiveConfig();
+  saveChannelsConfig({ ...latest, [platform]: [...(latest[platform] || []), stored] });
+  return { ...entry, platform, id };
+};
+
+export const untrackChannel = async (platform: Platform, name: string): Promise<number> => {
+  const config = getActiveConfig();
+  const entries = getChannelEntries(config, platform);
+  const index = findEntryIndex(entries, name);
+  if (index === -1) {
+    throw new ChannelManagementError('not_tracked', `${name} is not tracked on ${platform}`);
+  }
+
+  const count = await removeChannelSubscriptions(platform, entries[index].name);
+  // Filter the entries as written, so the others keep their plain string or object form
+  const latest = getActiveConfig();
+  const remaining = (latest[platform] || []).filter(entry => normalizeChannelEntry(entry).name.toLowerCase() !== name.toLowerCase());
+  saveChannelsConfig({ ...latest, [platform]: remaining });
+  return count;
+};
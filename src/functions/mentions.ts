@@ -0,0 +1,76 @@
+// --- TYPES ---
+export interface MentionsConfig {
+  roles?: string[];
+  users?: string[];
+  everyone?: boolean;
+  here?: boolean;
+}
+
+export interface AllowedMentions {
+  parse: ('everyone' | 'roles' | 'users')[];
+  roles: string[];
+  users: string[];
+}
+
+// Nothing is allowed to ping unless it was configured
+export const NO_MENTIONS: AllowedMentions = { parse: [], roles: [], users: [] };
+
+const SNOWFLAKE_PATTERN = /^\d{17,20}$/;
+
+// --- VALIDATION ---
+export const validateMentions = (mentions: MentionsConfig, source: string): void => {
+  if (!mentions || typeof mentions !== 'object' || Array.isArray(mentions)) {
+    throw new Error(`Mentions for ${source} must be an object`);
+  }
+  for (const key of ['roles', 'users'] as const) {
+    const ids = mentions[key];
+    if (ids === undefined) continue;
+    if (!Array.isArray(ids) || ids.some(id => typeof id !== 'string' || !SNOWFLAKE_PATTERN.test(id))) {
+      throw new Error(`Mentions ${key} for ${source} must be an array of Discord ID strings`);
+    }
+  }
+  for (const key of ['everyone', 'here'] as const) {
+    if (mentions[key] !== undefined && typeof mentions[key] !== 'boolean') {
+      throw new Error(`Mentions ${key} for ${source} must be true or false`);
+    }
+  }
+};
+
+// --- ESCAPING ---
+// Backslash-escape Discord markdown so titles can't change formatting
+export const escapeMarkdown = (text: string): string => {
+  return text
+    .replace(/([\\*_~`|>[\]])/g, '\\$1')
+    .replace(/^([#-])/gm, '\\$1');
+};
+
+// Break up @everyone, @here and <@id> style mentions with a zero-width space
+export const escapeMentions = (text: string): string => {
+  return text
+    .replace(/@(everyone|here)/gi, '@\u200b$1')
+    .replace(/<(@[!&]?|#)(\d+)>/g, '<\u200b$1$2>');
+};
+
+export const sanitizeText = (text: string): string => escapeMarkdown(escapeMentions(text));
+
+// --- MENTIONS ---
+export const buildMentionText = (mentions?: MentionsConfig): string => {
+  if (!mentions) return '';
+  const parts = [
+    ...(mentions.everyone ? ['@everyone'] : []),
+    ...(mentions.here ? ['@here'] : []),
+    ...(mentions.roles || []).map(id => `<@&${id}>`),
+    ...(mentions.users || []).map(id => `<@${id}>`)
+  ];
+  return parts.join(' ');
+};
+
+export const buildAllowedMentions = (mentions?: MentionsConfig): AllowedMentions => {
+  if (!mentions) return NO_MENTIONS;
+  return {
+    // "everyone" covers both @everyone and @here
+    parse: mentions.everyone || mentions.here ? ['everyone'] : [],
+    roles: mentions.roles || [],
+    users: mentions.users || []
+  };
+};
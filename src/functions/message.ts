@@ -1,172 +1,348 @@
-import { TwitchApiClient } from './auth/twitch/auth.js';
-import { KickApiClient } from './auth/kick/auth.js';
+import { getActiveConfig, getChannel, getNotifierConfigs } from './channels.js';
+import type { Platform } from './channels.js';
+import type { DiscordMessage } from './discord.js';
+import { getActiveAlert, removeActiveAlert, saveActiveAlert } from './alerts.js';
+import type { ActiveAlert, PostedMessage } from './alerts.js';
+import { NO_MENTIONS, sanitizeText } from './mentions.js';
+import { checkCooldown, recordLive, recordOffline } from './cooldown.js';
+import { buildAlertMessage, createTemplateVariables, resolveTemplate } from './templates.js';
+import { getPlatform } from './platforms/index.js';
+import { createNotifier, describeNotifier } from './notifiers/index.js';
+import type { AlertNotification } from './notifiers/types.js';
+import { streamFetchAttempts, streamFetchDuration } from './metrics.js';
+import { createLogger } from './logger.js';
 
-type Platform = 'twitch' | 'kick';
+const log = createLogger('Alerts');
 
-interface NormalizedStreamData {
+export interface NormalizedStreamData {
   streamTitle: string;
   streamCategory: string;
   username: string;
   streamUrl: string;
   streamThumbnail: string;
   userThumbnail: string;
+  offlineImage: string;
 }
 
-const getTwitchStreamData = async (userId: string): Promise<NormalizedStreamData> => {
-  const client = await TwitchApiClient.getInstance();
-  const streamResult = await client.getStream(userId);
-  const broadcasterResult = await client.getUserFromId(userId);
-
-  if (!streamResult.data || (Array.isArray(streamResult.data) && streamResult.data.length === 0)) {
-    throw new Error(`Stream for user ID ${userId} not found or user is not live.`);
-  }
-  if (!broadcasterResult.data || (Array.isArray(broadcasterResult.data) && broadcasterResult.data.length === 0)) {
-    throw new Error(`Broadcaster for user ID ${userId} not found.`);
-  }
-
-  const stream = Array.isArray(streamResult.data) ? streamResult.data[0] : streamResult.data;
-  const broadcaster = Array.isArray(broadcasterResult.data) ? broadcasterResult.data[0] : broadcasterResult.data;
-
-  return {
-    streamTitle: stream.title,
-    streamCategory: stream.game_name,
-    username: broadcaster.display_name,
-    streamUrl: `https://twitch.tv/${broadcaster.login.toLowerCase()}`,
-    streamThumbnail: stream.thumbnail_url.replace('{width}', '1280').replace('{height}', '720').concat(`?t=${Date.now()}`),
-    userThumbnail: broadcaster.profile_image_url
-  };
-};
-
-const getKickStreamData = async (userId: string): Promise<NormalizedStreamData> => {
-  const client = await KickApiClient.getInstance();
-  const channelResult = await client.getChannel(userId);
-  const userResult = await client.getUser(userId);
-
-  if (!channelResult) {
-    throw new Error(`Channel for user ID ${userId} not found.`);
-  }
-
-  if (!userResult) {
-    throw new Error(`User for user ID ${userId} not found.`);
-  }
-
-  const stream = channelResult.stream;
-  if (!stream || stream.is_live === false) {
-    throw new Error(`Stream for user ID ${userId} not live or missing.`);
-  }
-
-  const username = userResult.name;
-  const profilePic = userResult.profile_picture;
-  const streamTitle = channelResult.stream_title;
-  const category = channelResult.category.name || 'Just Chatting';
-  const slug = channelResult.slug;
-  const streamThumbnail = channelResult.stream.thumbnail;
-
-  return {
-    streamTitle,
-    streamCategory: category,
-    username,
-    streamUrl: `https://kick.com/${slug}`,
-    streamThumbnail,
-    userThumbnail: profilePic
-  };
-};
-
 // Helper function to get stream and broadcaster info with retries
-const getStreamWithRetry = async (platform: Platform, userId: string, retries = 6, delay = 5000): Promise<NormalizedStreamData | null> => {
+const getStreamWithRetry = async (platform: Platform, userId: string, streamId?: string, retries = 6, delay = 5000): Promise<NormalizedStreamData | null> => {
+  const adapter = getPlatform(platform);
   if (process.env.NODE_ENV === 'development') {
     return {
       streamTitle: "[Mock Server] Test Stream View",
       streamCategory: "Just Chatting",
-      username: platform === 'twitch' ? 'Twitch Mock User' : 'Kick Mock User',
-      streamUrl: platform === 'twitch' ? `https://twitch.tv/no_oj` : `https://kick.com/no-oj`,
+      username: `${adapter.name} Mock User`,
+      streamUrl: adapter.mockStreamUrl,
       streamThumbnail: "https://placehold.co/1280x720.png?text=Mock+Stream",
-      userThumbnail: "https://placehold.co/150"
+      userThumbnail: "https://placehold.co/150",
+      offlineImage: "https://placehold.co/1280x720.png?text=Stream+Ended"
     };
   }
 
+  const started = Date.now();
   for (let attempt = 1; attempt <= retries; attempt++) {
     try {
-      if (platform === 'twitch') {
-        return await getTwitchStreamData(userId);
-      } else if (platform === 'kick') {
-        return await getKickStreamData(userId);
-      }
+      const data = await adapter.getStreamData(userId, streamId);
+      streamFetchAttempts.inc({ platform, result: 'success' });
+      streamFetchDuration.observe({ platform, result: 'success' }, (Date.now() - started) / 1000);
+      return data;
     } catch (err: any) {
-      const platformName = platform === 'twitch' ? 'Twitch' : 'Kick';
-      console.error(`[${platformName}] ${err.message || err} Retrying... (${attempt}/${retries})`);
+      streamFetchAttempts.inc({ platform, result: 'failure' });
+      createLogger(adapter.name).warn(`${err.message || err} Retrying... (${attempt}/${retries})`, { userId, attempt });
     }
 
     if (attempt < retries) {
       await new Promise(res => setTimeout(res, delay));
     }
   }
+  streamFetchDuration.observe({ platform, result: 'failure' }, (Date.now() - started) / 1000);
   return null;
 };
 
-// Send a message to Discord via webhook
-export const sendMessage = async (platform: Platform, userId: string) => {
+// Render the alert for a channel through its resolved template
+const renderAlertMessage = (platform: Platform, userId: string, data: NormalizedStreamData, startedAt: string, imageUrl: string, history: string[] = []): DiscordMessage => {
+  const channel = getChannel(platform, userId);
+  const template = resolveTemplate(platform, getActiveConfig().templates, channel);
+  const variables = createTemplateVariables(platform, data, startedAt, channel?.mentions);
+  const message = buildAlertMessage(template, data, variables, imageUrl, channel?.mentions);
+  if (history.length > 0) {
+    // Discord caps field values at 1024 characters, so keep the most recent changes
+    let value = history.join('\n');
+    while (value.length > 1024 && history.length > 1) {
+      history = history.slice(1);
+      value = history.join('\n');
+    }
+    message.embeds[0].fields.push({ name: 'History', value: value.slice(0, 1024), inline: false });
+  }
+  return message;
+};
 
-  const data = await getStreamWithRetry(platform, userId);
+const getImageUrl = (platform: Platform, data: NormalizedStreamData): string => {
+  return getPlatform(platform).getImageUrl?.(data) ?? data.streamThumbnail;
+};
+
+const toNotification = (alert: ActiveAlert, state: AlertNotification['state'], message: DiscordMessage = alert.message): AlertNotification => ({
+  state,
+  platform: alert.platform,
+  userId: alert.userId,
+  data: alert.data,
+  startedAt: alert.startedAt,
+  imageUrl: state === 'ended' ? alert.offlineImage : alert.imageUrl,
+  message
+});
+
+interface PostedUpdateResult {
+  attempted: number;
+  succeeded: number;
+}
+
+// Edit every posted copy of an alert; one failing sink should not block the others.
+// Sinks that can't edit, like Slack, are skipped and left out of both counts
+const editPostedMessages = async (posted: PostedMessage[], notification: AlertNotification, reason: string): Promise<PostedUpdateResult> => {
+  const result: PostedUpdateResult = { attempted: 0, succeeded: 0 };
+  await Promise.all(posted.map(async ({ notifier, messageId }) => {
+    const sink = createNotifier(notifier);
+    if (!sink.edit) return;
+    result.attempted++;
+    try {
+      await sink.edit(messageId, notification);
+      result.succeeded++;
+    } catch (error) {
+      log.error(`Error updating ${describeNotifier(notifier)} message ${messageId} ${reason}`, { err: error });
+    }
+  }));
+  return result;
+};
+
+// Delete every posted copy of an alert, skipping sinks that can't delete the same way
+const removePostedMessages = async (posted: PostedMessage[], reason: string): Promise<PostedUpdateResult> => {
+  const result: PostedUpdateResult = { attempted: 0, succeeded: 0 };
+  await Promise.all(posted.map(async ({ notifier, messageId }) => {
+    const sink = createNotifier(notifier);
+    if (!sink.remove) return;
+    result.attempted++;
+    try {
+      await sink.remove(messageId);
+      result.succeeded++;
+    } catch (error) {
+      log.error(`Error deleting ${describeNotifier(notifier)} message ${messageId} ${reason}`, { err: error });
+    }
+  }));
+  return result;
+};
+
+// Bring the previous alert back to live instead of posting a new one; throws when no copy could be edited so the
+// outbox retries the event
+const refreshMessage = async (platform: Platform, userId: string, previous: ActiveAlert, data: NormalizedStreamData, streamId?: string): Promise<void> => {
+  const imageUrl = getImageUrl(platform, data);
+  const message = renderAlertMessage(platform, userId, data, previous.startedAt, imageUrl);
+  const alert: ActiveAlert = { ...previous, streamId: streamId ?? previous.streamId, imageUrl, data, history: [], message };
+
+  const { attempted, succeeded } = await editPostedMessages(previous.posted, toNotification(alert, 'live'), 'after reconnect');
+  if (attempted > 0 && succeeded === 0) {
+    throw new Error(`Failed to refresh any alert for ${data.username} (${platform}) after reconnect.`);
+  }
+
+  saveActiveAlert(alert);
+  log.info(`Refreshed notification for ${data.username} (${platform}) after reconnect`);
+};
+
+// Send the go-live alert to every notifier; streamId identifies the stream when the event carries one.
+// Throws when nothing could be sent so the outbox retries the event
+export const sendMessage = async (platform: Platform, userId: string, streamId?: string) => {
+
+  // Webhooks and the poller can both report the same go-live; without stream IDs to tell them apart it counts as the same stream
+  const existing = getActiveAlert(platform, userId);
+  if (existing && (!streamId || !existing.streamId || existing.streamId === streamId)) {
+    log.info(`Ignored go-live for ${platform} user ID ${userId}: stream already announced.`);
+    return;
+  }
+
+  const cooldown = checkCooldown(platform, userId);
+  recordLive(platform, userId);
+  if (cooldown?.mode === 'ignore') {
+    log.info(`Ignored go-live for ${platform} user ID ${userId}: reconnect within cooldown window.`);
+    return;
+  }
+
+  const data = await getStreamWithRetry(platform, userId, streamId);
 
   if (!data) {
-    console.error(`Failed to retrieve stream data for ${platform} user ID ${userId} after multiple attempts.`);
+    throw new Error(`Failed to retrieve stream data for ${platform} user ID ${userId} after multiple attempts.`);
+  }
+
+  if (cooldown?.previous && cooldown.previous.posted.length > 0) {
+    await refreshMessage(platform, userId, cooldown.previous, data, streamId);
+    return;
+  }
+
+  const startedAt = new Date().toISOString();
+  const imageUrl = getImageUrl(platform, data);
+  const message = renderAlertMessage(platform, userId, data, startedAt, imageUrl);
+
+  const notifiers = getNotifierConfigs(platform, userId);
+  if (notifiers.length === 0) {
+    log.error('Error sending alert: No notifiers configured for channel and no DISCORD_WEBHOOK_URL in environment.');
     return;
   }
 
-  if (platform === 'kick') {
-    console.log(`[Kick] Stream thumbnail URL: ${data.streamThumbnail}`);
+  const alert: ActiveAlert = {
+    platform,
+    userId,
+    streamId,
+    startedAt,
+    offlineImage: data.offlineImage || `https://${process.env.HOSTNAME}/assets/${getPlatform(platform).branding.icon}`,
+    imageUrl,
+    data,
+    history: [],
+    message,
+    posted: []
+  };
+
+  // Fan out to every sink; one failing sink should not block the others
+  let sent = 0;
+  await Promise.all(notifiers.map(async (notifier) => {
+    try {
+      const messageId = await createNotifier(notifier).post(toNotification(alert, 'live'));
+      sent++;
+      if (messageId) {
+        alert.posted.push({ notifier, messageId });
+      }
+    } catch (error) {
+      log.error(`Error sending alert to ${describeNotifier(notifier)}`, { err: error });
+      log.debug('Alert that failed to send', { message });
+    }
+  }));
+
+  if (sent === 0) {
+    throw new Error(`Failed to send alert for ${data.username} (${platform}) to any of ${notifiers.length} notifier(s).`);
   }
 
-  const message = {
-    content: `${data.username} just went live at ${data.streamUrl} !`,
-    type: 'rich',
-    tts: false,
+  saveActiveAlert(alert);
+  log.info(`Sent notification for ${data.username} (${platform}) to ${sent}/${notifiers.length} notifier(s)`, { platform, userId });
+
+};
+
+const formatDuration = (milliseconds: number): string => {
+  const totalMinutes = Math.max(0, Math.round(milliseconds / 60000));
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+const buildEndedMessage = (message: DiscordMessage, startedAt: string, offlineImage: string): DiscordMessage => {
+  const [embed] = message.embeds;
+  const duration = formatDuration(Date.now() - new Date(startedAt).getTime());
+  return {
+    ...message,
+    content: `${sanitizeText(embed.author.name)} was live at ${embed.url}`,
+    allowed_mentions: NO_MENTIONS,
     embeds: [
       {
-        description: '',
+        ...embed,
         fields: [
-          {
-            name: 'Category',
-            value: `${data.streamCategory}`,
-            inline: false
-          }
+          ...embed.fields,
+          { name: 'Status', value: 'Ended', inline: true },
+          { name: 'Duration', value: duration, inline: true }
         ],
-        title: `${data.streamTitle}`,
-        author: {
-          name: `${data.username}`,
-          icon_url: `${data.userThumbnail}`
-        },
-        url: `${data.streamUrl}`,
-        image: {
-          url: platform === 'kick'
-            ? `https://${process.env.HOSTNAME}/proxy/kick/thumbnail?url=${encodeURIComponent(data.streamThumbnail)}`
-            : `${data.streamThumbnail}`
-        },
-        timestamp: new Date().toISOString(),
-        color: platform === 'twitch' ? 9520895 : 5504024
+        image: { url: offlineImage }
       }
-    ],
-    username: platform === 'twitch' ? 'TwitchBot' : 'KickBot',
-    avatar_url: `https://${process.env.HOSTNAME}/assets/${platform}.png`
+    ]
   };
+};
 
-  try {
-    const discordWebhookUrl = process.env.DISCORD_WEBHOOK_URL;
-    if (!discordWebhookUrl) throw new Error("Discord webhook URL not found in environment.");
-
-    const response = await fetch(discordWebhookUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(message)
-    });
-    if (!response.ok) {
-      throw new Error(JSON.stringify(response, null, 2));
-    }
-  } catch (error) {
-    console.error('Error sending message to Discord:', error);
-    console.log(JSON.stringify(message, null, 2));
+// --- LIVE UPDATES ---
+export interface StreamMetadataChange {
+  streamTitle?: string;
+  streamCategory?: string;
+}
+
+// Pending alert edits keyed by platform and broadcaster ID
+const pendingUpdates = new Map<string, NodeJS.Timeout>();
+
+const getUpdateDebounce = (): number => {
+  const seconds = Number(process.env.UPDATE_DEBOUNCE_SECONDS);
+  return (Number.isFinite(seconds) && seconds >= 0 ? seconds : 10) * 1000;
+};
+
+const formatChangeTime = (date: Date): string => `<t:${Math.floor(date.getTime() / 1000)}:t>`;
+
+const cancelPendingUpdate = (platform: Platform, userId: string): void => {
+  const key = `${platform}:${userId}`;
+  const timer = pendingUpdates.get(key);
+  if (timer) {
+    clearTimeout(timer);
+    pendingUpdates.delete(key);
+  }
+};
+
+const flushUpdate = async (platform: Platform, userId: string): Promise<void> => {
+  pendingUpdates.delete(`${platform}:${userId}`);
+  const alert = getActiveAlert(platform, userId);
+  if (!alert) return;
+
+  const { attempted, succeeded } = await editPostedMessages(alert.posted, toNotification(alert, 'live'), 'with new stream details');
+  log.info(`Updated ${succeeded}/${attempted} notification(s) for ${alert.data.username} (${platform}) with new stream details`);
+};
+
+// Apply a title or category change to a live alert; the edit is debounced
+export const updateMessage = async (platform: Platform, userId: string, change: StreamMetadataChange) => {
+  const alert = getActiveAlert(platform, userId);
+  if (!alert) {
+    log.info(`No active alert found for ${platform} user ID ${userId}, skipping metadata update.`);
+    return;
+  }
+
+  const now = new Date();
+  const data = { ...alert.data };
+  const history = [...(alert.history || [])];
+  let changed = false;
+  if (change.streamTitle !== undefined && change.streamTitle !== data.streamTitle) {
+    data.streamTitle = change.streamTitle;
+    history.push(`Title changed to ${sanitizeText(change.streamTitle)} at ${formatChangeTime(now)}`);
+    changed = true;
   }
-  console.log(`Sent Discord notification for ${data.username} (${platform})`);
+  if (change.streamCategory !== undefined && change.streamCategory !== data.streamCategory) {
+    data.streamCategory = change.streamCategory;
+    history.push(`Category changed to ${sanitizeText(change.streamCategory)} at ${formatChangeTime(now)}`);
+    changed = true;
+  }
+  if (!changed) return;
+
+  const showHistory = process.env.UPDATE_HISTORY === 'true';
+  const message = renderAlertMessage(platform, userId, data, alert.startedAt, alert.imageUrl, showHistory ? history : []);
+  // Keep the original post time so edits don't move the embed timestamp
+  message.embeds[0].timestamp = alert.message.embeds[0].timestamp;
+  saveActiveAlert({ ...alert, data, history, message });
+
+  cancelPendingUpdate(platform, userId);
+  pendingUpdates.set(`${platform}:${userId}`, setTimeout(() => flushUpdate(platform, userId), getUpdateDebounce()));
+};
+
+// Edit or delete the go-live alert once the stream has ended
+export const endMessage = async (platform: Platform, userId: string) => {
+  cancelPendingUpdate(platform, userId);
+  const alert = getActiveAlert(platform, userId);
+  if (!alert) {
+    recordOffline(platform, userId);
+    log.info(`No active alert found for ${platform} user ID ${userId}, skipping offline update.`);
+    return;
+  }
+
+  const mode = process.env.OFFLINE_MESSAGE_MODE === 'delete' ? 'delete' : 'edit';
+  const endedMessage = buildEndedMessage(alert.message, alert.startedAt, alert.offlineImage);
+
+  const updated = mode === 'delete'
+    ? await removePostedMessages(alert.posted, 'for offline stream')
+    : await editPostedMessages(alert.posted, toNotification(alert, 'ended', endedMessage), 'for offline stream');
 
-};
\ No newline at end of file
+  // Keep the alert so a retry can try again
+  if (updated.attempted > 0 && updated.succeeded === 0) {
+    throw new Error(`Failed to update any alert for ${alert.data.username} (${platform}) as offline.`);
+  }
+
+  // A deleted message can't be refreshed on reconnect, so only keep edited ones
+  recordOffline(platform, userId, mode === 'edit' ? alert : undefined);
+  removeActiveAlert(platform, userId);
+  log.info(`Updated notification for ${alert.data.username} (${platform}) as offline (${mode})`);
+};
@@ -0,0 +1,90 @@
+// Prometheus text exposition, kept small enough that a client library isn't worth the dependency
+const PREFIX = 'stream_alerts_';
+const DURATION_BUCKETS = [0.1, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+type Labels = Record<string, string>;
+
+interface Metric {
+  render(): string[];
+}
+
+const metrics: Metric[] = [];
+
+const escapeLabel = (value: string): string => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+const formatLabels = (labels: Labels): string => {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabel(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+};
+
+// Series are keyed by their label string so each combination is tracked once
+const seriesKey = (labels: Labels): string => JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+
+const header = (name: string, help: string, type: string): string[] => [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`];
+
+// --- METRIC TYPES ---
+const createCounter = (name: string, help: string) => {
+  const fullName = `${PREFIX}${name}`;
+  const series = new Map<string, { labels: Labels; value: number }>();
+  metrics.push({
+    render: () => [...header(fullName, help, 'counter'), ...[...series.values()].map(({ labels, value }) => `${fullName}${formatLabels(labels)} ${value}`)]
+  });
+  return {
+    inc: (labels: Labels = {}, value = 1): void => {
+      const key = seriesKey(labels);
+      const entry = series.get(key) ?? { labels, value: 0 };
+      entry.value += value;
+      series.set(key, entry);
+    }
+  };
+};
+
+const createGauge = (name: string, help: string) => {
+  const fullName = `${PREFIX}${name}`;
+  const series = new Map<string, { labels: Labels; value: number }>();
+  metrics.push({
+    render: () => [...header(fullName, help, 'gauge'), ...[...series.values()].map(({ labels, value }) => `${fullName}${formatLabels(labels)} ${value}`)]
+  });
+  return {
+    set: (labels: Labels, value: number): void => {
+      series.set(seriesKey(labels), { labels, value });
+    }
+  };
+};
+
+const createHistogram = (name: string, help: string, buckets: number[]) => {
+  const fullName = `${PREFIX}${name}`;
+  const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+  metrics.push({
+    render: () => [...header(fullName, help, 'histogram'), ...[...series.values()].flatMap(({ labels, counts, sum, count }) => [
+      ...buckets.map((bucket, i) => `${fullName}_bucket${formatLabels({ ...labels, le: String(bucket) })} ${counts[i]}`),
+      `${fullName}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`,
+      `${fullName}_sum${formatLabels(labels)} ${sum}`,
+      `${fullName}_count${formatLabels(labels)} ${count}`
+    ])]
+  });
+  return {
+    observe: (labels: Labels, value: number): void => {
+      const key = seriesKey(labels);
+      const entry = series.get(key) ?? { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+      buckets.forEach((bucket, i) => {
+        if (value <= bucket) entry.counts[i]++;
+      });
+      entry.sum += value;
+      entry.count++;
+      series.set(key, entry);
+    }
+  };
+};
+
+// --- METRICS ---
+export const webhookRequests = createCounter('webhook_requests_total', 'Webhook requests received, by platform and outcome');
+export const streamFetchAttempts = createCounter('stream_fetch_attempts_total', 'Attempts to fetch stream data for an alert, by platform and result');
+export const streamFetchDuration = createHistogram('stream_fetch_duration_seconds', 'Time spent fetching stream data for an alert including retries, by platform and result', DURATION_BUCKETS);
+export const discordRequests = createCounter('discord_requests_total', 'Discord webhook requests, by method, result and HTTP status');
+export const tokenRefreshes = createCounter('token_refreshes_total', 'App access token fetches, by client and result');
+export const activeSubscriptions = createGauge('active_subscriptions', 'Healthy subscriptions per platform as of the last reconcile or audit');
+export const polledEvents = createCounter('polled_events_total', 'Live transitions detected by the polling fallback, by platform and type');
+export const thumbnailProxyRequests = createCounter('thumbnail_proxy_requests_total', 'Thumbnail proxy requests, by result');
+
+export const renderMetrics = (): string => `${metrics.flatMap(metric => metric.render()).join('\n')}\n`;
@@ -0,0 +1,19 @@
+import { deleteWebhookMessage, editWebhookMessage, postWebhookMessage } from '../discord.js';
+import { NO_MENTIONS } from '../mentions.js';
+import type { Notifier } from './types.js';
+
+export const createDiscordNotifier = (url: string): Notifier => ({
+  post: ({ message }) => postWebhookMessage(url, message),
+
+  // Edits can ping newly added mentions, so never allow any
+  edit: async (messageId, { message }) => {
+    const { content, embeds } = message;
+    await editWebhookMessage(url, messageId, { content, embeds, allowed_mentions: NO_MENTIONS });
+  },
+
+  remove: (messageId) => deleteWebhookMessage(url, messageId),
+
+  sendText: async (text) => {
+    await postWebhookMessage(url, { content: text, allowed_mentions: NO_MENTIONS });
+  }
+});
@@ -0,0 +1,20 @@
+import type { AlertNotification } from './types.js';
+
+// Sinks other than Discord get a fixed summary rather than the Discord template
+export const formatAlertText = ({ state, data }: AlertNotification): string => {
+  const verb = state === 'live' ? 'is live' : 'was live';
+  return `${data.username} ${verb}: ${data.streamTitle} (${data.streamCategory})\n${data.streamUrl}`;
+};
+
+export const escapeHtml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+};
+
+export const formatAlertHtml = ({ state, data }: AlertNotification): string => {
+  const verb = state === 'live' ? 'is live' : 'was live';
+  return `<b>${escapeHtml(data.username)}</b> ${verb}: <a href="${escapeHtml(data.streamUrl)}">${escapeHtml(data.streamTitle)}</a> (${escapeHtml(data.streamCategory)})`;
+};
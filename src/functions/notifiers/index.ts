@@ -0,0 +1,69 @@
+import { createDiscordNotifier } from './discord.js';
+import { createSlackNotifier } from './slack.js';
+import { createTelegramNotifier } from './telegram.js';
+import { createMatrixNotifier } from './matrix.js';
+import { createWebhookNotifier } from './webhook.js';
+import type { Notifier, NotifierConfig, NotifierType } from './types.js';
+
+// Settings each sink type needs, all of them strings
+const REQUIRED_FIELDS: Record<NotifierType, string[]> = {
+  discord: ['url'],
+  slack: ['url'],
+  telegram: ['botToken', 'chatId'],
+  matrix: ['homeserver', 'roomId', 'accessToken'],
+  webhook: ['url', 'secret']
+};
+
+const URL_FIELDS = ['url', 'homeserver'];
+
+// --- VALIDATION ---
+export const validateNotifiers = (notifiers: NotifierConfig[], source: string): void => {
+  if (!Array.isArray(notifiers)) {
+    throw new Error(`Notifiers for ${source} must be an array`);
+  }
+  for (const notifier of notifiers) {
+    const fields = REQUIRED_FIELDS[notifier?.type];
+    if (!fields) {
+      throw new Error(`Unknown notifier type for ${source}: ${JSON.stringify(notifier?.type)}. Expected one of ${Object.keys(REQUIRED_FIELDS).join(', ')}`);
+    }
+    for (const field of fields) {
+      const value = (notifier as unknown as Record<string, unknown>)[field];
+      if (typeof value !== 'string' || !value) {
+        throw new Error(`Notifier ${notifier.type} for ${source} is missing "${field}"`);
+      }
+      if (URL_FIELDS.includes(field) && !URL.canParse(value)) {
+        throw new Error(`Notifier ${notifier.type} for ${source} has an invalid ${field}`);
+      }
+    }
+  }
+};
+
+// --- SINKS ---
+export const createNotifier = (config: NotifierConfig): Notifier => {
+  switch (config.type) {
+    case 'discord':
+      return createDiscordNotifier(config.url);
+    case 'slack':
+      return createSlackNotifier(config.url);
+    case 'telegram':
+      return createTelegramNotifier(config.botToken, config.chatId);
+    case 'matrix':
+      return createMatrixNotifier(config.homeserver, config.roomId, config.accessToken);
+    case 'webhook':
+      return createWebhookNotifier(config.url, config.secret);
+  }
+};
+
+// Used in logs, so it must not include tokens or webhook secrets
+export const describeNotifier = (config: NotifierConfig): string => {
+  switch (config.type) {
+    case 'telegram':
+      return `telegram chat ${config.chatId}`;
+    case 'matrix':
+      return `matrix room ${config.roomId}`;
+    case 'webhook':
+      return `webhook ${new URL(config.url).host}`;
+    default:
+      return config.type;
+  }
+};
@@ -0,0 +1,62 @@
+import crypto from 'crypto';
+import { formatAlertHtml, formatAlertText } from './format.js';
+import type { Notifier } from './types.js';
+
+const sendMatrixRequest = async <T>(homeserver: string, accessToken: string, path: string, body: object): Promise<T> => {
+  const response = await fetch(`${homeserver.replace(/\/+$/, '')}/_matrix/client/v3${path}`, {
+    method: 'PUT',
+    body: JSON.stringify(body),
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Content-Type': 'application/json'
+    }
+  });
+  if (!response.ok) {
+    throw new Error(`Matrix API Error: ${response.status} - ${await response.text()}`);
+  }
+  return (await response.json()) as T;
+};
+
+export const createMatrixNotifier = (homeserver: string, roomId: string, accessToken: string): Notifier => {
+  const room = encodeURIComponent(roomId);
+
+  // Every event needs a fresh transaction ID, otherwise the homeserver treats it as a retry
+  const sendEvent = (content: object) => {
+    return sendMatrixRequest<{ event_id: string }>(homeserver, accessToken, `/rooms/${room}/send/m.room.message/${crypto.randomUUID()}`, content);
+  };
+
+  return {
+    post: async (notification) => {
+      const { event_id } = await sendEvent({
+        msgtype: 'm.text',
+        body: formatAlertText(notification),
+        format: 'org.matrix.custom.html',
+        formatted_body: formatAlertHtml(notification)
+      });
+      return event_id;
+    },
+
+    edit: async (messageId, notification) => {
+      const content = {
+        msgtype: 'm.text',
+        body: formatAlertText(notification),
+        format: 'org.matrix.custom.html',
+        formatted_body: formatAlertHtml(notification)
+      };
+      await sendEvent({
+        ...content,
+        body: `* ${content.body}`,
+        'm.new_content': content,
+        'm.relates_to': { rel_type: 'm.replace', event_id: messageId }
+      });
+    },
+
+    remove: async (messageId) => {
+      await sendMatrixRequest(homeserver, accessToken, `/rooms/${room}/redact/${encodeURIComponent(messageId)}/${crypto.randomUUID()}`, {});
+    },
+
+    sendText: async (text) => {
+      await sendEvent({ msgtype: 'm.text', body: text });
+    }
+  };
+};
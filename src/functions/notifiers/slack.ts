@@ -0,0 +1,38 @@
+import type { AlertNotification, Notifier } from './types.js';
+
+// Slack's mrkdwn only treats these three characters specially
+const escapeSlack = (text: string): string => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+};
+
+const postToSlack = async (url: string, payload: object): Promise<void> => {
+  const response = await fetch(url, {
+    method: 'POST',
+    body: JSON.stringify(payload),
+    headers: { 'Content-Type': 'application/json' }
+  });
+  if (!response.ok) {
+    throw new Error(`Slack API Error: ${response.status} - ${await response.text()}`);
+  }
+};
+
+const buildSlackMessage = ({ data, imageUrl }: AlertNotification) => {
+  const summary = `*${escapeSlack(data.username)}* is live: <${data.streamUrl}|${escapeSlack(data.streamTitle)}> (${escapeSlack(data.streamCategory)})`;
+  return {
+    text: `${data.username} is live: ${data.streamUrl}`,
+    blocks: [
+      { type: 'section', text: { type: 'mrkdwn', text: summary } },
+      ...(imageUrl ? [{ type: 'image', image_url: imageUrl, alt_text: data.streamTitle || data.username }] : [])
+    ]
+  };
+};
+
+// Incoming webhooks can only post, so Slack alerts are never edited or removed
+export const createSlackNotifier = (url: string): Notifier => ({
+  post: async (notification) => {
+    await postToSlack(url, buildSlackMessage(notification));
+    return null;
+  },
+
+  sendText: (text) => postToSlack(url, { text })
+});
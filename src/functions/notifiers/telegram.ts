@@ -0,0 +1,52 @@
+import { formatAlertHtml } from './format.js';
+import type { Notifier } from './types.js';
+
+const TELEGRAM_API_BASE_URL = 'https://api.telegram.org';
+
+interface TelegramResponse<T> {
+  ok: boolean;
+  result?: T;
+  description?: string;
+}
+
+const callTelegram = async <T>(botToken: string, method: string, body: object): Promise<T | undefined> => {
+  const response = await fetch(`${TELEGRAM_API_BASE_URL}/bot${botToken}/${method}`, {
+    method: 'POST',
+    body: JSON.stringify(body),
+    headers: { 'Content-Type': 'application/json' }
+  });
+  const json = await response.json().catch(() => null) as TelegramResponse<T> | null;
+  if (!response.ok || !json?.ok) {
+    throw new Error(`Telegram API Error: ${response.status} - ${json?.description || response.statusText}`);
+  }
+  return json.result;
+};
+
+export const createTelegramNotifier = (botToken: string, chatId: string): Notifier => ({
+  post: async (notification) => {
+    const result = await callTelegram<{ message_id: number }>(botToken, 'sendPhoto', {
+      chat_id: chatId,
+      photo: notification.imageUrl,
+      caption: formatAlertHtml(notification),
+      parse_mode: 'HTML'
+    });
+    return result ? result.message_id.toString() : null;
+  },
+
+  edit: async (messageId, notification) => {
+    await callTelegram(botToken, 'editMessageCaption', {
+      chat_id: chatId,
+      message_id: Number(messageId),
+      caption: formatAlertHtml(notification),
+      parse_mode: 'HTML'
+    });
+  },
+
+  remove: async (messageId) => {
+    await callTelegram(botToken, 'deleteMessage', { chat_id: chatId, message_id: Number(messageId) });
+  },
+
+  sendText: async (text) => {
+    await callTelegram(botToken, 'sendMessage', { chat_id: chatId, text });
+  }
+});
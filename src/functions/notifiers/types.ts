@@ -0,0 +1,34 @@
+import type { Platform } from '../channels.js';
+import type { DiscordMessage } from '../discord.js';
+import type { NormalizedStreamData } from '../message.js';
+
+// --- CONFIG ---
+export type NotifierConfig =
+  | { type: 'discord'; url: string }
+  | { type: 'slack'; url: string }
+  | { type: 'telegram'; botToken: string; chatId: string }
+  | { type: 'matrix'; homeserver: string; roomId: string; accessToken: string }
+  | { type: 'webhook'; url: string; secret: string };
+
+export type NotifierType = NotifierConfig['type'];
+
+// --- NOTIFICATIONS ---
+export interface AlertNotification {
+  state: 'live' | 'ended';
+  platform: Platform;
+  userId: string;
+  data: NormalizedStreamData;
+  startedAt: string;
+  imageUrl: string;
+  // The alert rendered from the channel's template, used as-is by Discord
+  message: DiscordMessage;
+}
+
+// --- SINK ---
+export interface Notifier {
+  // Returns an ID for later edits, or null when the sink can't edit what it posted
+  post(notification: AlertNotification): Promise<string | null>;
+  edit?(messageId: string, notification: AlertNotification): Promise<void>;
+  remove?(messageId: string): Promise<void>;
+  sendText(text: string): Promise<void>;
+}
@@ -0,0 +1,51 @@
+import crypto from 'crypto';
+import type { AlertNotification, Notifier } from './types.js';
+
+type WebhookEvent = 'stream.online' | 'stream.updated' | 'stream.offline' | 'alert.deleted' | 'test';
+
+// Receivers verify X-Signature-256 as an HMAC-SHA256 of "<timestamp>.<body>" using the shared secret
+const sendSignedEvent = async (url: string, secret: string, event: WebhookEvent, payload: object): Promise<void> => {
+  const timestamp = Math.floor(Date.now() / 1000).toString();
+  const body = JSON.stringify({ event, ...payload });
+  const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+  const response = await fetch(url, {
+    method: 'POST',
+    body,
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Timestamp': timestamp,
+      'X-Signature-256': `sha256=${signature}`
+    }
+  });
+  if (!response.ok) {
+    throw new Error(`Webhook Error: ${response.status} - ${await response.text()}`);
+  }
+};
+
+const toPayload = ({ platform, userId, data, startedAt, imageUrl }: AlertNotification, messageId: string) => ({
+  id: messageId,
+  platform,
+  userId,
+  startedAt,
+  imageUrl,
+  stream: data
+});
+
+export const createWebhookNotifier = (url: string, secret: string): Notifier => ({
+  // The generated ID lets receivers tie later updates to the original alert
+  post: async (notification) => {
+    const messageId = crypto.randomUUID();
+    await sendSignedEvent(url, secret, 'stream.online', toPayload(notification, messageId));
+    return messageId;
+  },
+
+  edit: async (messageId, notification) => {
+    const event = notification.state === 'ended' ? 'stream.offline' : 'stream.updated';
+    await sendSignedEvent(url, secret, event, toPayload(notification, messageId));
+  },
+
+  remove: (messageId) => sendSignedEvent(url, secret, 'alert.deleted', { id: messageId }),
+
+  sendText: (text) => sendSignedEvent(url, secret, 'test', { message: text })
+});
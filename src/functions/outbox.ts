@@ -0,0 +1,185 @@
+import crypto from 'crypto';
+import type { Platform } from './channels.js';
+import { endMessage, sendMessage, updateMessage } from './message.js';
+import type { StreamEvent } from './platforms/types.js';
+import { readDataFile, writeDataFile, writeDataFileOrThrow } from './storage.js';
+import { createLogger, getCorrelationId, withCorrelationId } from './logger.js';
+
+const log = createLogger('Outbox');
+
+const OUTBOX_FILE = 'outbox.json';
+const MAX_ATTEMPTS = 8;
+const BASE_BACKOFF_MS = 15 * 1000;
+const MAX_BACKOFF_MS = 15 * 60 * 1000;
+
+// --- TYPES ---
+export interface OutboxItem {
+  id: string;
+  platform: Platform;
+  event: StreamEvent;
+  receivedAt: string;
+  attempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+  failedAt?: string;
+  // Message ID of the webhook the event came from, attached to every log line while it is processed
+  correlationId?: string;
+}
+
+interface Outbox {
+  pending: OutboxItem[];
+  deadLetters: OutboxItem[];
+}
+
+let outbox: Outbox | null = null;
+
+// Channels with an item being processed; events for one channel run in the order they arrived
+const inFlight = new Set<string>();
+let wakeTimer: NodeJS.Timeout | null = null;
+
+const loadOutbox = (): Outbox => {
+  if (!outbox) {
+    outbox = { pending: [], deadLetters: [], ...readDataFile<Partial<Outbox>>(OUTBOX_FILE, {}) };
+  }
+  return outbox;
+};
+
+const saveOutbox = (): void => {
+  writeDataFile(OUTBOX_FILE, loadOutbox());
+};
+
+const channelKey = (item: OutboxItem): string => `${item.platform}:${item.event.userId}`;
+
+const getBackoff = (attempts: number): number => Math.min(BASE_BACKOFF_MS * 2 ** (attempts - 1), MAX_BACKOFF_MS);
+
+const dispatchEvent = (platform: Platform, event: StreamEvent): Promise<void> => {
+  switch (event.type) {
+    case 'online':
+      return sendMessage(platform, event.userId, event.streamId);
+    case 'offline':
+      return endMessage(platform, event.userId);
+    case 'update':
+      return updateMessage(platform, event.userId, event.change);
+  }
+};
+
+// --- QUEUE ---
+// Written synchronously so events are on disk before the platform gets its acknowledgement.
+// Throws when the outbox can't be written, so the platform can be asked to deliver again
+export const enqueueEvents = (platform: Platform, events: StreamEvent[]): void => {
+  if (events.length === 0) return;
+  const now = new Date().toISOString();
+  const correlationId = getCorrelationId();
+  const box = loadOutbox();
+  const items: OutboxItem[] = events.map(event => ({
+    id: crypto.randomUUID(),
+    platform,
+    event,
+    receivedAt: now,
+    attempts: 0,
+    nextAttemptAt: now,
+    ...(correlationId && { correlationId })
+  }));
+  box.pending.push(...items);
+  try {
+    writeDataFileOrThrow(OUTBOX_FILE, box);
+  } catch (err) {
+    // Left out of memory as well, the redelivery brings them back
+    box.pending = box.pending.filter(pending => !items.includes(pending));
+    throw err;
+  }
+};
+
+const completeItem = (item: OutboxItem): void => {
+  const box = loadOutbox();
+  box.pending = box.pending.filter(pending => pending.id !== item.id);
+  saveOutbox();
+};
+
+const failItem = (item: OutboxItem, err: unknown): void => {
+  const box = loadOutbox();
+  item.attempts++;
+  item.lastError = (err as Error).message || String(err);
+
+  if (item.attempts >= MAX_ATTEMPTS) {
+    box.pending = box.pending.filter(pending => pending.id !== item.id);
+    box.deadLetters.push({ ...item, failedAt: new Date().toISOString() });
+    log.error(`Gave up on ${item.event.type} event for ${channelKey(item)} after ${item.attempts} attempts, moved to dead letters: ${item.lastError}`);
+  } else {
+    const delay = getBackoff(item.attempts);
+    item.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+    log.warn(`${item.event.type} event for ${channelKey(item)} failed (attempt ${item.attempts}/${MAX_ATTEMPTS}), retrying in ${Math.round(delay / 1000)}s: ${item.lastError}`);
+  }
+  saveOutbox();
+};
+
+const runItem = (item: OutboxItem): Promise<void> => withCorrelationId(item.correlationId, async () => {
+  try {
+    await dispatchEvent(item.platform, item.event);
+    completeItem(item);
+  } catch (err) {
+    failItem(item, err);
+  }
+});
+
+const scheduleWake = (): void => {
+  if (wakeTimer) clearTimeout(wakeTimer);
+  wakeTimer = null;
+
+  const waiting = loadOutbox().pending.filter(item => !inFlight.has(channelKey(item)));
+  if (waiting.length === 0) return;
+  const next = Math.min(...waiting.map(item => new Date(item.nextAttemptAt).getTime()));
+  wakeTimer = setTimeout(processOutbox, Math.max(0, next - Date.now()));
+};
+
+// --- WORKER ---
+// Start every item that is due and first in line for its channel; also resumes items left by a previous run
+export const processOutbox = (): void => {
+  const now = Date.now();
+  const seen = new Set<string>();
+
+  for (const item of loadOutbox().pending) {
+    const key = channelKey(item);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    if (inFlight.has(key) || new Date(item.nextAttemptAt).getTime() > now) continue;
+
+    inFlight.add(key);
+    runItem(item).finally(() => {
+      inFlight.delete(key);
+      processOutbox();
+    });
+  }
+  scheduleWake();
+};
+
+// Events still waiting to be delivered for a channel, e.g. so the poller doesn't report a change twice
+export const hasPendingEvents = (platform: Platform, userId: string): boolean => {
+  return loadOutbox().pending.some(item => item.platform === platform && item.event.userId === userId);
+};
+
+// --- DEAD LETTERS ---
+export const getOutbox = (): Outbox => loadOutbox();
+
+export const replayDeadLetter = (id: string): OutboxItem | null => {
+  const box = loadOutbox();
+  const item = box.deadLetters.find(deadLetter => deadLetter.id === id);
+  if (!item) return null;
+
+  box.deadLetters = box.deadLetters.filter(deadLetter => deadLetter.id !== id);
+  const replayed: OutboxItem = { ...item, attempts: 0, nextAttemptAt: new Date().toISOString(), failedAt: undefined };
+  box.pending.push(replayed);
+  saveOutbox();
+  log.info(`Replaying ${item.event.type} event for ${channelKey(item)}`);
+  processOutbox();
+  return replayed;
+};
+
+export const discardDeadLetter = (id: string): boolean => {
+  const box = loadOutbox();
+  const count = box.deadLetters.length;
+  box.deadLetters = box.deadLetters.filter(deadLetter => deadLetter.id !== id);
+  if (box.deadLetters.length === count) return false;
+  saveOutbox();
+  return true;
+};
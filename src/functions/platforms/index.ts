@@ -0,0 +1,24 @@
+import type { Platform } from '../channels.js';
+import { twitchPlatform } from './twitch.js';
+import { kickPlatform } from './kick.js';
+import { youtubePlatform } from './youtube.js';
+import type { StreamPlatform } from './types.js';
+
+// Webhook routes, startup subscriptions and alert branding are all driven from this registry
+const platforms = new Map<Platform, StreamPlatform>();
+
+export const registerPlatform = (platform: StreamPlatform): void => {
+  platforms.set(platform.id, platform);
+};
+
+export const getPlatform = (id: Platform): StreamPlatform => {
+  const platform = platforms.get(id);
+  if (!platform) throw new Error(`No adapter registered for platform ${id}`);
+  return platform;
+};
+
+export const getPlatforms = (): StreamPlatform[] => [...platforms.values()];
+
+registerPlatform(twitchPlatform);
+registerPlatform(kickPlatform);
+registerPlatform(youtubePlatform);
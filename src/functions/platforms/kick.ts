@@ -0,0 +1,182 @@
+import { KickApiClient } from '../auth/kick/auth.js';
+import { KICK_SUBSCRIPTION_EVENTS, createKickSubscriptions, deleteKickSubscription, listKickSubscriptions } from '../auth/kick/subscriptions.js';
+import { isMessageTooOld, markMessageSeen } from '../replay.js';
+import type { NormalizedStreamData } from '../message.js';
+import type { LiveStatus, StreamPlatform, WebhookRequest, WebhookResponse } from './types.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('Kick');
+
+// Kick has no stream ID, so the start time tells streams apart; compared to the second as webhooks and the API may format it differently
+const toStreamId = (startedAt?: string | null): string | undefined => {
+  const time = startedAt ? Date.parse(startedAt) : NaN;
+  return Number.isFinite(time) ? String(Math.floor(time / 1000)) : undefined;
+};
+
+const handleWebhook = async ({ headers, body: rawBody }: WebhookRequest): Promise<WebhookResponse> => {
+  const messageId = headers['kick-event-message-id'] as string;
+  const timestamp = headers['kick-event-message-timestamp'] as string;
+  const providedSignature = headers['kick-event-signature'] as string;
+
+  if (!messageId || !timestamp || !providedSignature) {
+    log.warn('Missing required headers for Kick signature verification');
+    return { status: 400 };
+  }
+  const client = await KickApiClient.getInstance();
+  const isValid = await client.verifyKickSignature(messageId, timestamp, rawBody.toString(), providedSignature);
+
+  if (!isValid) {
+    log.warn('Invalid signature for Kick EventSub request');
+    return { status: 403, outcome: 'invalid_signature' };
+  }
+
+  if (isMessageTooOld(timestamp)) {
+    log.warn(`Dropped message ${messageId}: timestamp ${timestamp} is outside the allowed window`);
+    return { status: 200, outcome: 'stale' };
+  }
+
+  let body;
+  try {
+    body = JSON.parse(rawBody.toString());
+  } catch {
+    log.warn(`Dropped message ${messageId}: body is not valid JSON`);
+    return { status: 400, outcome: 'rejected' };
+  }
+  const eventType = headers['kick-event-type'];
+
+  if (!markMessageSeen('kick', messageId)) {
+    log.warn(`Dropped duplicate message ${messageId} (${eventType})`);
+    return { status: 200, outcome: 'duplicate' };
+  }
+
+  if (eventType === 'livestream.status.updated') {
+    const { broadcaster, is_live: isLive, started_at: startedAt }: Partial<KickLivestreamStatusUpdateEvent> = body;
+    const broadcasterId = broadcaster?.user_id;
+    if (!broadcasterId || typeof isLive !== 'boolean') {
+      log.warn(`Dropped message ${messageId}: ${eventType} payload has no broadcaster or live status`);
+      return { status: 400, outcome: 'rejected' };
+    }
+    if (isLive) {
+      log.info(`Received Kick notification for broadcaster ID: ${broadcasterId}`);
+      return { status: 200, events: [{ type: 'online', userId: broadcasterId.toString(), streamId: toStreamId(startedAt) }], outcome: 'notification' };
+    }
+    log.info(`Received Kick offline notification for broadcaster ID: ${broadcasterId}`);
+    return { status: 200, events: [{ type: 'offline', userId: broadcasterId.toString() }], outcome: 'notification' };
+  }
+
+  if (eventType === 'livestream.metadata.updated') {
+    const { broadcaster, metadata }: Partial<KickLivestreamMetadataUpdatedEvent> = body;
+    if (!broadcaster?.user_id || !metadata) {
+      log.warn(`Dropped message ${messageId}: ${eventType} payload has no broadcaster or metadata`);
+      return { status: 400, outcome: 'rejected' };
+    }
+    log.info(`Received Kick metadata update for broadcaster ID: ${broadcaster.user_id}`);
+    return {
+      status: 200,
+      events: [{ type: 'update', userId: broadcaster.user_id.toString(), change: { streamTitle: metadata.title, streamCategory: metadata.category?.name } }],
+      outcome: 'notification'
+    };
+  }
+
+  log.info(`Received unhandled Kick EventSub message type: ${eventType}`);
+  return { status: 200 };
+};
+
+const getStreamData = async (userId: string): Promise<NormalizedStreamData> => {
+  const client = await KickApiClient.getInstance();
+  const channelResult = await client.getChannel(userId);
+  const userResult = await client.getUser(userId);
+
+  if (!channelResult) {
+    throw new Error(`Channel for user ID ${userId} not found.`);
+  }
+
+  if (!userResult) {
+    throw new Error(`User for user ID ${userId} not found.`);
+  }
+
+  const stream = channelResult.stream;
+  if (!stream || stream.is_live === false) {
+    throw new Error(`Stream for user ID ${userId} not live or missing.`);
+  }
+
+  const username = userResult.name;
+  const profilePic = userResult.profile_picture;
+  const streamTitle = channelResult.stream_title;
+  const category = channelResult.category.name || 'Just Chatting';
+  const slug = channelResult.slug;
+  const streamThumbnail = channelResult.stream.thumbnail;
+  log.debug(`Kick stream thumbnail URL: ${streamThumbnail}`, { userId });
+
+  return {
+    streamTitle,
+    streamCategory: category,
+    username,
+    streamUrl: `https://kick.com/${slug}`,
+    streamThumbnail,
+    userThumbnail: profilePic,
+    offlineImage: channelResult.banner_picture || ''
+  };
+};
+
+export const kickPlatform: StreamPlatform = {
+  id: 'kick',
+  name: 'Kick',
+  branding: { color: 5504024, username: 'KickBot', icon: 'kick.png' },
+  mockStreamUrl: 'https://kick.com/no-oj',
+  subscriptionTypes: KICK_SUBSCRIPTION_EVENTS.map(event => event.name),
+  messageIdHeader: 'kick-event-message-id',
+
+  initialize: async () => {
+    await KickApiClient.getInstance();
+  },
+
+  // Without the public key every webhook fails signature verification
+  getHealthChecks: async () => {
+    const client = await KickApiClient.getInstance();
+    return { authenticated: client.isAuthenticated, publicKeyLoaded: client.hasPublicKey };
+  },
+
+  resolveChannel: async (name) => {
+    const client = await KickApiClient.getInstance();
+    const channelData = await client.getChannel(name);
+    return channelData?.broadcaster_user_id?.toString() ?? null;
+  },
+
+  listSubscriptions: async () => {
+    return (await listKickSubscriptions()).map(sub => ({
+      id: sub.id,
+      userId: sub.broadcaster_user_id.toString(),
+      type: sub.event,
+      status: `v${sub.version}`,
+      // Subscriptions on an outdated event version are replaced
+      healthy: KICK_SUBSCRIPTION_EVENTS.some(event => event.name === sub.event && event.version === sub.version)
+    }));
+  },
+
+  // Kick creates every event for a broadcaster in a single request
+  createSubscriptions: async (userId, types) => {
+    const events = KICK_SUBSCRIPTION_EVENTS.filter(event => types.includes(event.name));
+    const results = await createKickSubscriptions(Number(userId), events) || [];
+    return results.map(result => ({ type: result.name, error: result.error || undefined }));
+  },
+
+  deleteSubscription: (subscription) => deleteKickSubscription(subscription.id),
+
+  handleWebhook,
+  getStreamData,
+
+  // The channels endpoint is queried per broadcaster; getChannel returns null when a lookup fails
+  pollLiveStatus: async (userIds) => {
+    const client = await KickApiClient.getInstance();
+    const statuses = new Map<string, LiveStatus>();
+    for (const userId of userIds) {
+      const channel = await client.getChannel(userId);
+      if (!channel) continue;
+      statuses.set(userId, { live: channel.stream?.is_live === true, streamId: toStreamId(channel.stream?.start_time) });
+    }
+    return statuses;
+  },
+
+  getImageUrl: (data) => `https://${process.env.HOSTNAME}/proxy/kick/thumbnail?url=${encodeURIComponent(data.streamThumbnail)}`
+};
@@ -0,0 +1,238 @@
+import { TwitchApiClient } from '../auth/twitch/auth.js';
+import { TWITCH_SUBSCRIPTION_TYPES, createTwitchSubscription, deleteTwitchSubscription, isCurrentTwitchTransport, listTwitchSubscriptions } from '../auth/twitch/subscriptions.js';
+import type { TwitchSubscriptionType } from '../auth/twitch/subscriptions.js';
+import { connectTwitchWebSocket, isTwitchWebSocketConnected } from '../auth/twitch/websocket.js';
+import { getActiveConfig, getChannelEntries } from '../channels.js';
+import { enqueueEvents, processOutbox } from '../outbox.js';
+import { logReconcileReport, reconcilePlatformSubscriptions } from '../reconcile.js';
+import { isMessageTooOld, markMessageSeen } from '../replay.js';
+import { handleTwitchRevocation } from '../revocations.js';
+import type { NormalizedStreamData } from '../message.js';
+import type { LiveStatus, StreamEvent, StreamPlatform, WebhookRequest, WebhookResponse } from './types.js';
+import { createLogger, withCorrelationId } from '../logger.js';
+
+const log = createLogger('Twitch');
+
+// Twitch statuses worth keeping; anything else has failed and is replaced
+const HEALTHY_TWITCH_STATUSES = ['enabled', 'webhook_callback_verification_pending'];
+// Failures the reconciler can fix by recreating; revocations for other reasons are handled when they arrive
+const FAILED_TWITCH_STATUSES = ['webhook_callback_verification_failed', 'notification_failures_exceeded', 'websocket_disconnected'];
+// Most broadcaster IDs the streams endpoint takes in one request
+const STREAM_BATCH_SIZE = 100;
+
+// Same mapping for notifications arriving by webhook or over the WebSocket
+const toStreamEvent = (subscriptionType: string, event: Record<string, unknown>): StreamEvent => {
+  const broadcasterId = event.broadcaster_user_id as string;
+  log.info(`Received ${subscriptionType} notification for broadcaster ID: ${broadcasterId}`);
+  if (subscriptionType === 'stream.offline') {
+    return { type: 'offline', userId: broadcasterId };
+  }
+  if (subscriptionType === 'channel.update') {
+    return { type: 'update', userId: broadcasterId, change: { streamTitle: event.title as string, streamCategory: event.category_name as string } };
+  }
+  return { type: 'online', userId: broadcasterId, streamId: event.id as string };
+};
+
+const handleRevocation = (subscription: EventSubSubscription): void => {
+  // Recovery can take a while, so it runs after Twitch has its acknowledgement
+  handleTwitchRevocation(subscription).catch(err => {
+    log.error(`Failed to handle revocation of ${subscription.id}`, { err });
+  });
+};
+
+const handleWebhook = async ({ headers, body: rawBody }: WebhookRequest): Promise<WebhookResponse> => {
+  const messageId = headers['twitch-eventsub-message-id'] as string;
+  const timestamp = headers['twitch-eventsub-message-timestamp'] as string;
+  const providedSignature = headers['twitch-eventsub-message-signature'] as string;
+  const messageType = headers['twitch-eventsub-message-type'] as string;
+
+  if (!messageId || !timestamp || !providedSignature) {
+    log.warn('Missing required headers for signature verification');
+    return { status: 400 };
+  }
+  const client = await TwitchApiClient.getInstance();
+  const isValid = await client.verifyTwitchSignature(messageId, timestamp, rawBody, providedSignature);
+
+  if (!isValid) {
+    log.warn('Invalid signature for Twitch EventSub request');
+    return { status: 403, outcome: 'invalid_signature' };
+  }
+
+  // Acknowledged so Twitch doesn't count it as a failed delivery, which could end the subscription
+  if (isMessageTooOld(timestamp)) {
+    log.warn(`Dropped message ${messageId}: timestamp ${timestamp} is outside the allowed window`);
+    return { status: 200, outcome: 'stale' };
+  }
+
+  let body;
+  try {
+    body = JSON.parse(rawBody.toString());
+  } catch {
+    log.warn(`Dropped message ${messageId}: body is not valid JSON`);
+    return { status: 400, outcome: 'rejected' };
+  }
+
+  if (messageType === 'webhook_callback_verification') {
+    return { status: 200, body: body.challenge, outcome: 'verification' };
+  }
+  if (!markMessageSeen('twitch', messageId)) {
+    log.warn(`Dropped duplicate message ${messageId} (${messageType})`);
+    return { status: 200, outcome: 'duplicate' };
+  }
+  if (messageType === 'revocation') {
+    handleRevocation(body.subscription);
+    return { status: 200, outcome: 'revocation' };
+  }
+  if (messageType === 'notification') {
+    return { status: 200, events: [toStreamEvent(body.subscription.type, body.event)], outcome: 'notification' };
+  }
+  if (messageType) {
+    log.warn(`Received unhandled Twitch EventSub message: ${messageType}`);
+    return { status: 200 };
+  }
+  log.info('Unknown message type');
+  return { status: 400 };
+};
+
+// --- WEBSOCKET TRANSPORT ---
+// Messages come over a connection Twitch opened for us, so there is no signature, only the replay checks
+const handleSocketMessage = ({ metadata, payload }: EventSubWebSocketMessage): void => {
+  if (isMessageTooOld(metadata.message_timestamp)) {
+    log.warn(`Dropped message ${metadata.message_id}: timestamp ${metadata.message_timestamp} is outside the allowed window`);
+    return;
+  }
+  if (!markMessageSeen('twitch', metadata.message_id)) {
+    log.warn(`Dropped duplicate message ${metadata.message_id} (${metadata.message_type})`);
+    return;
+  }
+  if (metadata.message_type === 'revocation') {
+    handleRevocation(payload.subscription!);
+    return;
+  }
+  try {
+    withCorrelationId(metadata.message_id, () => {
+      enqueueEvents('twitch', [toStreamEvent(payload.subscription!.type, payload.event ?? {})]);
+    });
+  } catch (err) {
+    // Nothing asks Twitch to resend a WebSocket message, the polling fallback or the next event has to catch up
+    log.error(`Failed to store message ${metadata.message_id} in the outbox`, { err });
+    return;
+  }
+  processOutbox();
+};
+
+// Subscriptions die with their session, a fresh one needs them all created again
+const resubscribe = (sessionId: string): void => {
+  if (process.env.NODE_ENV === 'development') {
+    log.info(`Development mode: Skipping subscription setup for session ${sessionId}.`);
+    return;
+  }
+  reconcilePlatformSubscriptions('twitch', getChannelEntries(getActiveConfig(), 'twitch'))
+    .then(logReconcileReport)
+    .catch(err => log.error(`Failed to resubscribe on session ${sessionId}`, { err }));
+};
+
+const getStreamData = async (userId: string): Promise<NormalizedStreamData> => {
+  const client = await TwitchApiClient.getInstance();
+  const streamResult = await client.getStream(userId);
+  const broadcasterResult = await client.getUserFromId(userId);
+
+  if (!streamResult.data || (Array.isArray(streamResult.data) && streamResult.data.length === 0)) {
+    throw new Error(`Stream for user ID ${userId} not found or user is not live.`);
+  }
+  if (!broadcasterResult.data || (Array.isArray(broadcasterResult.data) && broadcasterResult.data.length === 0)) {
+    throw new Error(`Broadcaster for user ID ${userId} not found.`);
+  }
+
+  const stream = Array.isArray(streamResult.data) ? streamResult.data[0] : streamResult.data;
+  const broadcaster = Array.isArray(broadcasterResult.data) ? broadcasterResult.data[0] : broadcasterResult.data;
+
+  return {
+    streamTitle: stream.title,
+    streamCategory: stream.game_name,
+    username: broadcaster.display_name,
+    streamUrl: `https://twitch.tv/${broadcaster.login.toLowerCase()}`,
+    streamThumbnail: stream.thumbnail_url.replace('{width}', '1280').replace('{height}', '720').concat(`?t=${Date.now()}`),
+    userThumbnail: broadcaster.profile_image_url,
+    offlineImage: broadcaster.offline_image_url
+  };
+};
+
+export const twitchPlatform: StreamPlatform = {
+  id: 'twitch',
+  name: 'Twitch',
+  branding: { color: 9520895, username: 'TwitchBot', icon: 'twitch.png' },
+  mockStreamUrl: 'https://twitch.tv/no_oj',
+  subscriptionTypes: TWITCH_SUBSCRIPTION_TYPES,
+  auditStatuses: [...HEALTHY_TWITCH_STATUSES, ...FAILED_TWITCH_STATUSES],
+  messageIdHeader: 'twitch-eventsub-message-id',
+
+  initialize: async () => {
+    const client = await TwitchApiClient.getInstance();
+    // The session has to exist before the startup reconcile can subscribe to it
+    if (client.usesWebSocket) {
+      await connectTwitchWebSocket({ onMessage: handleSocketMessage, onNewSession: resubscribe });
+    }
+  },
+
+  getHealthChecks: async () => {
+    const client = await TwitchApiClient.getInstance();
+    return {
+      authenticated: client.isAuthenticated,
+      ...(client.usesWebSocket && { websocketConnected: isTwitchWebSocketConnected() })
+    };
+  },
+
+  resolveChannel: async (name) => {
+    const client = await TwitchApiClient.getInstance();
+    const userResult = await client.getUserFromName(name);
+    const user = Array.isArray(userResult.data) ? userResult.data[0] : userResult.data;
+    return user?.id ?? null;
+  },
+
+  listSubscriptions: async (status) => {
+    return (await listTwitchSubscriptions(status)).map(sub => ({
+      id: sub.id,
+      userId: sub.condition.broadcaster_user_id,
+      type: sub.type,
+      status: sub.status,
+      healthy: HEALTHY_TWITCH_STATUSES.includes(sub.status) && isCurrentTwitchTransport(sub.transport)
+    }));
+  },
+
+  createSubscriptions: async (userId, types) => {
+    const results = [];
+    for (const type of types) {
+      try {
+        await createTwitchSubscription(type as TwitchSubscriptionType, userId);
+        results.push({ type });
+      } catch (err) {
+        results.push({ type, error: (err as Error).message });
+      }
+    }
+    return results;
+  },
+
+  deleteSubscription: (subscription) => deleteTwitchSubscription(subscription.id),
+
+  handleWebhook,
+  getStreamData,
+
+  pollLiveStatus: async (userIds) => {
+    const client = await TwitchApiClient.getInstance();
+    const statuses = new Map<string, LiveStatus>();
+    for (let i = 0; i < userIds.length; i += STREAM_BATCH_SIZE) {
+      const batch = userIds.slice(i, i + STREAM_BATCH_SIZE);
+      try {
+        const { data } = await client.getStream(batch);
+        for (const userId of batch) {
+          const stream = data?.find(item => item.user_id === userId);
+          statuses.set(userId, { live: !!stream, streamId: stream?.id });
+        }
+      } catch (err) {
+        log.warn(`Failed to poll ${batch.length} channel(s)`, { err });
+      }
+    }
+    return statuses;
+  }
+};
@@ -0,0 +1,96 @@
+import type { IncomingHttpHeaders } from 'http';
+import type { Platform } from '../channels.js';
+import type { NormalizedStreamData, StreamMetadataChange } from '../message.js';
+
+// --- BRANDING ---
+export interface PlatformBranding {
+  color: number;
+  username: string;
+  // File name under public/, served from /assets
+  icon: string;
+}
+
+// --- SUBSCRIPTIONS ---
+export interface PlatformSubscription {
+  id: string;
+  userId: string;
+  type: string;
+  status: string;
+  // Unhealthy subscriptions are deleted and recreated by the reconciler
+  healthy: boolean;
+}
+
+export interface SubscriptionResult {
+  type: string;
+  error?: string;
+}
+
+// --- WEBHOOKS ---
+export interface WebhookRequest {
+  headers: IncomingHttpHeaders;
+  query: Record<string, unknown>;
+  body: Buffer;
+}
+
+export type StreamEvent =
+  | { type: 'online'; userId: string; streamId?: string }
+  | { type: 'offline'; userId: string }
+  | { type: 'update'; userId: string; change: StreamMetadataChange };
+
+// Recorded in the webhook request metrics
+export type WebhookOutcome = 'invalid_signature' | 'verification' | 'notification' | 'revocation' | 'duplicate' | 'stale' | 'rejected' | 'ignored';
+
+export interface WebhookResponse {
+  status: number;
+  body?: string;
+  // Defaults to rejected for error statuses and ignored otherwise
+  outcome?: WebhookOutcome;
+  // Written to the outbox before the platform gets its response
+  events?: StreamEvent[];
+}
+
+// --- POLLING ---
+export interface LiveStatus {
+  live: boolean;
+  streamId?: string;
+}
+
+// --- HEALTH ---
+// Named dependency checks, each true while that dependency works, e.g. { authenticated: true }
+export type PlatformHealthChecks = Record<string, boolean>;
+
+// --- ADAPTER ---
+export interface StreamPlatform {
+  id: Platform;
+  name: string;
+  branding: PlatformBranding;
+  // Used in place of real stream data in development
+  mockStreamUrl: string;
+  // Subscription types every tracked channel should have
+  subscriptionTypes: readonly string[];
+  // Statuses the audit lists one at a time when the platform can filter by status
+  auditStatuses?: readonly string[];
+  // Header carrying the platform's message ID, used as the correlation ID in logs
+  messageIdHeader?: string;
+
+  initialize(): Promise<void>;
+  // Background work that only runs once subscriptions are set up
+  start?(): void;
+  // Readiness fails when any check is false for a platform with tracked channels
+  getHealthChecks(): Promise<PlatformHealthChecks>;
+
+  resolveChannel(name: string): Promise<string | null>;
+  listSubscriptions(status?: string): Promise<PlatformSubscription[]>;
+  createSubscriptions(userId: string, types: readonly string[]): Promise<SubscriptionResult[]>;
+  deleteSubscription(subscription: PlatformSubscription): Promise<void>;
+
+  handleWebhook(req: WebhookRequest): Promise<WebhookResponse>;
+  // Answers GET requests on the webhook route, e.g. WebSub intent verification
+  handleVerification?(req: WebhookRequest): WebhookResponse | null;
+
+  getStreamData(userId: string, streamId?: string): Promise<NormalizedStreamData>;
+  // Live state of each channel for the polling fallback, channels that couldn't be checked are left out
+  pollLiveStatus?(userIds: string[]): Promise<Map<string, LiveStatus>>;
+  // Some CDNs reject hotlinked thumbnails, so the image can be routed through a proxy
+  getImageUrl?(data: NormalizedStreamData): string;
+}
@@ -0,0 +1,166 @@
+import { YouTubeApiClient } from '../auth/youtube/auth.js';
+import { confirmYouTubeSubscription, createYouTubeSubscription, deleteYouTubeSubscription, isYouTubeSubscriptionExpiring, listYouTubeSubscriptions, parseYouTubeFeed, startYouTubeLeaseRenewal } from '../auth/youtube/subscriptions.js';
+import { getActiveAlert } from '../alerts.js';
+import type { NormalizedStreamData } from '../message.js';
+import type { StreamEvent, StreamPlatform, WebhookRequest, WebhookResponse } from './types.js';
+import { createLogger } from '../logger.js';
+
+const log = createLogger('YouTube');
+
+// Feed pings only say a video changed, so look it up to see whether it went live or ended
+const getVideoEvent = async (channelId: string, videoId: string): Promise<StreamEvent | null> => {
+  const client = await YouTubeApiClient.getInstance();
+  const video = await client.getVideo(videoId);
+  if (!video) {
+    log.warn(`Video ${videoId} from channel ${channelId} not found`);
+    return null;
+  }
+
+  const alert = getActiveAlert('youtube', channelId);
+  if (video.snippet.liveBroadcastContent === 'live') {
+    // The same video is pinged for every edit and lease renewal, for as long as it is live
+    if (alert?.streamId === videoId) return null;
+    log.info(`Video ${videoId} is live for channel ID: ${channelId}`);
+    return { type: 'online', userId: channelId, streamId: videoId };
+  }
+  if (video.liveStreamingDetails?.actualEndTime && alert?.streamId === videoId) {
+    log.info(`Video ${videoId} has ended for channel ID: ${channelId}`);
+    return { type: 'offline', userId: channelId };
+  }
+  return null;
+};
+
+const getFeedEvents = async (entries: YouTubeFeedEntry[]): Promise<StreamEvent[]> => {
+  const events: StreamEvent[] = [];
+  for (const entry of entries) {
+    try {
+      const event = await getVideoEvent(entry.channelId, entry.videoId);
+      if (event) events.push(event);
+    } catch (err) {
+      log.error(`Failed to handle video ${entry.videoId}`, { err });
+    }
+  }
+  return events;
+};
+
+const handleWebhook = async ({ headers, body }: WebhookRequest): Promise<WebhookResponse> => {
+  const providedSignature = headers['x-hub-signature'] as string;
+
+  if (!providedSignature || body.length === 0) {
+    log.warn('Missing required headers for YouTube signature verification');
+    return { status: 400 };
+  }
+  const client = await YouTubeApiClient.getInstance();
+
+  // WebSub expects a 2xx even for bad signatures, the notification is simply ignored
+  if (!client.verifyWebSubSignature(body, providedSignature)) {
+    log.warn('Invalid signature for YouTube WebSub request');
+    return { status: 200, outcome: 'invalid_signature' };
+  }
+
+  return { status: 200, events: await getFeedEvents(parseYouTubeFeed(body.toString())), outcome: 'notification' };
+};
+
+const handleVerification = ({ query }: WebhookRequest): WebhookResponse | null => {
+  const mode = query['hub.mode'] as string;
+  const topic = query['hub.topic'] as string;
+  const challenge = query['hub.challenge'] as string;
+
+  if (!mode) return null;
+  if (!topic || !challenge) {
+    log.warn('Missing topic or challenge in hub verification request');
+    return { status: 400 };
+  }
+
+  const leaseSeconds = Number(query['hub.lease_seconds']) || undefined;
+  if (!confirmYouTubeSubscription(mode, topic, leaseSeconds)) {
+    log.warn(`Rejected ${mode} verification for unknown topic ${topic}`);
+    return { status: 404 };
+  }
+  log.info(`Verified ${mode} for ${topic}`);
+  return { status: 200, body: challenge, outcome: 'verification' };
+};
+
+const pickThumbnail = (thumbnails: Record<string, YouTubeThumbnail>): string => {
+  return (thumbnails.maxres || thumbnails.high || thumbnails.medium || thumbnails.default)?.url || '';
+};
+
+// YouTube notifications carry the video ID, which is looked up directly to avoid search quota
+const getStreamData = async (channelId: string, videoId?: string): Promise<NormalizedStreamData> => {
+  if (!videoId) {
+    throw new Error(`No video ID provided for YouTube channel ${channelId}.`);
+  }
+  const client = await YouTubeApiClient.getInstance();
+  const video = await client.getVideo(videoId);
+  const channel = await client.getChannel(channelId);
+
+  if (!video || video.snippet.liveBroadcastContent !== 'live') {
+    throw new Error(`Video ${videoId} for channel ID ${channelId} not found or not live.`);
+  }
+  if (!channel) {
+    throw new Error(`Channel for channel ID ${channelId} not found.`);
+  }
+
+  const category = await client.getVideoCategory(video.snippet.categoryId);
+
+  return {
+    streamTitle: video.snippet.title,
+    streamCategory: category || 'Live',
+    username: channel.snippet.title,
+    streamUrl: `https://www.youtube.com/watch?v=${video.id}`,
+    streamThumbnail: pickThumbnail(video.snippet.thumbnails),
+    userThumbnail: pickThumbnail(channel.snippet.thumbnails),
+    offlineImage: channel.brandingSettings?.image?.bannerExternalUrl || ''
+  };
+};
+
+export const youtubePlatform: StreamPlatform = {
+  id: 'youtube',
+  name: 'YouTube',
+  branding: { color: 16711680, username: 'YouTubeBot', icon: 'youtube.png' },
+  mockStreamUrl: 'https://www.youtube.com/watch?v=mock',
+  subscriptionTypes: ['feed'],
+
+  initialize: async () => {
+    await YouTubeApiClient.getInstance();
+  },
+
+  getHealthChecks: async () => {
+    const client = await YouTubeApiClient.getInstance();
+    return { authenticated: client.isAuthenticated };
+  },
+
+  start: startYouTubeLeaseRenewal,
+
+  resolveChannel: async (name) => {
+    const client = await YouTubeApiClient.getInstance();
+    const channel = await client.getChannel(name);
+    return channel?.id ?? null;
+  },
+
+  // Leases that were never verified or are about to lapse are requested again
+  listSubscriptions: async () => {
+    return (await listYouTubeSubscriptions()).map(sub => ({
+      id: sub.channelId,
+      userId: sub.channelId,
+      type: 'feed',
+      status: !sub.verifiedAt ? 'unverified' : isYouTubeSubscriptionExpiring(sub) ? 'expiring' : 'verified',
+      healthy: Boolean(sub.verifiedAt) && !isYouTubeSubscriptionExpiring(sub)
+    }));
+  },
+
+  createSubscriptions: async (userId) => {
+    try {
+      await createYouTubeSubscription(userId);
+      return [{ type: 'feed' }];
+    } catch (err) {
+      return [{ type: 'feed', error: (err as Error).message }];
+    }
+  },
+
+  deleteSubscription: (subscription) => deleteYouTubeSubscription(subscription.userId),
+
+  handleWebhook,
+  handleVerification,
+  getStreamData
+};
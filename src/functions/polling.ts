@@ -0,0 +1,109 @@
+import crypto from 'crypto';
+import { findChannelId, getActiveConfig, getChannelEntries } from './channels.js';
+import type { Platform } from './channels.js';
+import { getActiveAlert } from './alerts.js';
+import { getLastLive } from './cooldown.js';
+import { getPlatform, getPlatforms } from './platforms/index.js';
+import type { StreamEvent, StreamPlatform } from './platforms/types.js';
+import { enqueueEvents, hasPendingEvents, processOutbox } from './outbox.js';
+import { polledEvents } from './metrics.js';
+import { createLogger, withCorrelationId } from './logger.js';
+
+// Get Streams can lag behind webhooks by tens of seconds, so one offline poll right after a go-live isn't trusted
+const OFFLINE_CONFIRMATIONS = 2;
+
+interface PollState {
+  live: boolean;
+  // Consecutive polls that found the channel offline, and when the first of them ran
+  offlinePolls: number;
+  offlineSince: number | null;
+}
+
+// Last polled state per channel; only changes from it are reported
+const pollStates = new Map<string, PollState>();
+const pollTimers = new Map<Platform, NodeJS.Timeout>();
+const pollsRunning = new Set<Platform>();
+
+const stateKey = (platform: Platform, userId: string): string => `${platform}:${userId}`;
+
+// e.g. TWITCH_POLL_INTERVAL_SECONDS, unset or 0 leaves the platform to its webhooks
+const getPollInterval = (platform: Platform): number => {
+  const seconds = Number(process.env[`${platform.toUpperCase()}_POLL_INTERVAL_SECONDS`]);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : 0;
+};
+
+// --- POLLING ---
+// Events already on their way through the outbox, or an alert that matches, mean the webhook got there first
+export const pollPlatform = async (platform: Platform): Promise<StreamEvent[]> => {
+  const adapter = getPlatform(platform);
+  if (!adapter.pollLiveStatus) return [];
+
+  const userIds = getChannelEntries(getActiveConfig(), platform)
+    .map(entry => findChannelId(platform, entry.name))
+    .filter((userId): userId is string => !!userId);
+  if (userIds.length === 0) return [];
+
+  const events: StreamEvent[] = [];
+  const updates: [string, PollState][] = [];
+  for (const [userId, status] of await adapter.pollLiveStatus(userIds)) {
+    const key = stateKey(platform, userId);
+    const previous = pollStates.get(key);
+    const next: PollState = status.live
+      ? { live: true, offlinePolls: 0, offlineSince: null }
+      : { live: false, offlinePolls: (previous?.offlinePolls ?? 0) + 1, offlineSince: previous?.offlineSince ?? Date.now() };
+
+    // The first poll after startup, or after a channel is added, only records where the channel stands
+    if (!previous) {
+      updates.push([key, next]);
+      continue;
+    }
+    // Checked again on the next poll once the channel's pending events are delivered
+    if (hasPendingEvents(platform, userId)) continue;
+    updates.push([key, next]);
+
+    const alert = getActiveAlert(platform, userId);
+    if (status.live && !previous.live && (!alert || (status.streamId && alert.streamId && alert.streamId !== status.streamId))) {
+      events.push({ type: 'online', userId, ...(status.streamId && { streamId: status.streamId }) });
+    } else if (alert && next.offlinePolls >= OFFLINE_CONFIRMATIONS && next.offlineSince! > getLastLive(platform, userId)) {
+      // Offline polls from before the latest go-live only show the lag, not the end of the stream
+      events.push({ type: 'offline', userId });
+    }
+  }
+
+  // Only remembered once the events are stored, a failed write leaves the change for the next poll
+  if (events.length > 0) {
+    const log = createLogger(adapter.name);
+    withCorrelationId(`poll-${crypto.randomUUID()}`, () => enqueueEvents(platform, events));
+    events.forEach(event => {
+      polledEvents.inc({ platform, type: event.type });
+      log.info(`Polling found ${event.type} for broadcaster ID: ${event.userId}`, { userId: event.userId });
+    });
+    processOutbox();
+  }
+  updates.forEach(([key, state]) => pollStates.set(key, state));
+  return events;
+};
+
+// --- SCHEDULE ---
+const startPlatformPolling = (adapter: StreamPlatform, seconds: number): void => {
+  const log = createLogger(adapter.name);
+  const existing = pollTimers.get(adapter.id);
+  if (existing) clearInterval(existing);
+
+  pollTimers.set(adapter.id, setInterval(() => {
+    // A slow platform API shouldn't stack polls on top of each other
+    if (pollsRunning.has(adapter.id)) return;
+    pollsRunning.add(adapter.id);
+    pollPlatform(adapter.id)
+      .catch(err => log.error('Polling for live channels failed', { err }))
+      .finally(() => pollsRunning.delete(adapter.id));
+  }, seconds * 1000));
+  log.info(`Polling tracked channels every ${seconds}s`);
+};
+
+export const startPolling = (): void => {
+  for (const adapter of getPlatforms()) {
+    const seconds = getPollInterval(adapter.id);
+    if (adapter.pollLiveStatus && seconds > 0) startPlatformPolling(adapter, seconds);
+  }
+};
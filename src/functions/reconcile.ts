@@ -0,0 +1,162 @@
+import { findChannelId, getChannelEntries, registerChannel, unregisterChannel } from './channels.js';
+import type { ChannelEntry, ChannelsConfig, Platform } from './channels.js';
+import { getPlatform, getPlatforms } from './platforms/index.js';
+import { clearChannelBroken } from './revocations.js';
+import { activeSubscriptions } from './metrics.js';
+import { createLogger } from './logger.js';
+
+// --- TYPES ---
+export class ChannelNotFoundError extends Error {
+  constructor(platform: Platform, name: string) {
+    super(`${getPlatform(platform).name} user not found: ${name}`);
+    this.name = 'ChannelNotFoundError';
+  }
+}
+
+export interface ReconcileReport {
+  platform: Platform;
+  channels: number;
+  unresolved: string[];
+  kept: number;
+  created: string[];
+  deleted: string[];
+  errors: string[];
+}
+
+const createReport = (platform: Platform, channels: number): ReconcileReport => ({
+  platform,
+  channels,
+  unresolved: [],
+  kept: 0,
+  created: [],
+  deleted: [],
+  errors: []
+});
+
+// --- RECONCILIATION ---
+export const reconcilePlatformSubscriptions = async (platform: Platform, entries: ChannelEntry[]): Promise<ReconcileReport> => {
+  const adapter = getPlatform(platform);
+  const report = createReport(platform, entries.length);
+  const existing = await adapter.listSubscriptions();
+
+  // Desired channels keyed by broadcaster ID
+  const desired = new Map<string, string>();
+  let unknownChannels = 0;
+  for (const entry of entries) {
+    let userId: string | null = null;
+    let lookupFailed = false;
+    try {
+      userId = await adapter.resolveChannel(entry.name);
+      if (userId) registerChannel(platform, userId, entry);
+    } catch (err) {
+      lookupFailed = true;
+      report.errors.push(`Failed to resolve ${entry.name}: ${(err as Error).message}`);
+    }
+    // Lookups fail during API outages too, so fall back to the ID the channel was registered under
+    userId ??= findChannelId(platform, entry.name) ?? null;
+    if (!userId) {
+      unknownChannels++;
+      if (!lookupFailed) report.unresolved.push(entry.name);
+      continue;
+    }
+    desired.set(userId, entry.name);
+  }
+
+  // While a configured channel has no known ID, any unmatched subscription could still be its own
+  const keepUnmatched = unknownChannels > 0;
+
+  // Keep the first healthy match for each desired subscription, delete everything else
+  const satisfied = new Set<string>();
+  for (const sub of existing) {
+    const key = `${sub.type}:${sub.userId}`;
+    const isDesired = desired.has(sub.userId) && adapter.subscriptionTypes.includes(sub.type);
+    if (isDesired && sub.healthy && !satisfied.has(key)) {
+      satisfied.add(key);
+      report.kept++;
+      continue;
+    }
+    if (keepUnmatched && !desired.has(sub.userId)) continue;
+    try {
+      await adapter.deleteSubscription(sub);
+      report.deleted.push(`${key} (${sub.status})`);
+    } catch (err) {
+      report.errors.push(`Failed to delete ${key}: ${(err as Error).message}`);
+    }
+  }
+
+  for (const [userId, name] of desired) {
+    const missing = adapter.subscriptionTypes.filter(type => !satisfied.has(`${type}:${userId}`));
+    if (missing.length === 0) continue;
+    try {
+      const results = await adapter.createSubscriptions(userId, missing);
+      for (const result of results) {
+        if (result.error) {
+          report.errors.push(`Failed to create ${result.type} for ${name}: ${result.error}`);
+        } else {
+          report.created.push(`${result.type} for ${name}`);
+        }
+      }
+      if (!results.some(result => result.error)) clearChannelBroken(platform, userId);
+    } catch (err) {
+      report.errors.push(`Failed to create subscriptions for ${name}: ${(err as Error).message}`);
+    }
+  }
+
+  activeSubscriptions.set({ platform }, report.kept + report.created.length);
+  return report;
+};
+
+// --- SINGLE CHANNEL CHANGES ---
+// Resolve a channel and create its subscriptions, returning the broadcaster ID
+export const addChannelSubscriptions = async (platform: Platform, entry: ChannelEntry): Promise<string> => {
+  const adapter = getPlatform(platform);
+  const userId = await adapter.resolveChannel(entry.name);
+  if (!userId) throw new ChannelNotFoundError(platform, entry.name);
+  registerChannel(platform, userId, entry);
+
+  const existing = (await adapter.listSubscriptions()).filter(sub => sub.userId === userId && sub.healthy);
+  const missing = adapter.subscriptionTypes.filter(type => !existing.some(sub => sub.type === type));
+  if (missing.length > 0) {
+    const failed = (await adapter.createSubscriptions(userId, missing)).find(result => result.error);
+    if (failed) throw new Error(`Failed to create ${failed.type}: ${failed.error}`);
+  }
+  clearChannelBroken(platform, userId);
+  return userId;
+};
+
+// Delete every subscription for a tracked channel, returning how many were removed
+export const removeChannelSubscriptions = async (platform: Platform, name: string): Promise<number> => {
+  const adapter = getPlatform(platform);
+  const userId = findChannelId(platform, name) ?? await adapter.resolveChannel(name);
+  if (!userId) throw new ChannelNotFoundError(platform, name);
+  unregisterChannel(platform, userId);
+
+  const subs = (await adapter.listSubscriptions()).filter(sub => sub.userId === userId);
+  await Promise.all(subs.map(sub => adapter.deleteSubscription(sub)));
+  return subs.length;
+};
+
+// --- ENTRY POINT ---
+export const logReconcileReport = (report: ReconcileReport): void => {
+  const log = createLogger(getPlatform(report.platform).name);
+  log.info(`Reconciled subscriptions for ${report.channels} channel(s): ${report.kept} kept, ${report.created.length} created, ${report.deleted.length} deleted`);
+  report.created.forEach(item => log.info(`  + ${item}`));
+  report.deleted.forEach(item => log.info(`  - ${item}`));
+  report.unresolved.forEach(name => log.error(`User not found: ${name}`));
+  report.errors.forEach(error => log.warn(error));
+};
+
+export const reconcileSubscriptions = async (config: ChannelsConfig): Promise<ReconcileReport[]> => {
+  const reports: ReconcileReport[] = [];
+
+  for (const adapter of getPlatforms()) {
+    try {
+      reports.push(await reconcilePlatformSubscriptions(adapter.id, getChannelEntries(config, adapter.id)));
+    } catch (err) {
+      createLogger(adapter.name).warn('Failed to reconcile subscriptions', { err });
+    }
+  }
+
+  reports.forEach(logReconcileReport);
+  return reports;
+};
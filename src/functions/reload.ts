@@ -0,0 +1,95 @@
+import fs from 'fs';
+import path from 'path';
+import { PLATFORMS, findChannelId, getActiveConfig, getChannelEntries, getChannelsPath, loadChannelsConfig, registerChannel, setActiveConfig } from './channels.js';
+import type { ChannelEntry, ChannelsConfig, Platform } from './channels.js';
+import { addChannelSubscriptions, removeChannelSubscriptions } from './reconcile.js';
+import { getPlatform } from './platforms/index.js';
+import { createLogger } from './logger.js';
+
+const RELOAD_DEBOUNCE_MS = 1000;
+
+const log = createLogger('Channels');
+
+// Reloads run one at a time so overlapping file events can't interleave subscription changes
+let reloadQueue: Promise<void> = Promise.resolve();
+let debounceTimer: NodeJS.Timeout | null = null;
+
+const entriesByName = (config: ChannelsConfig, platform: Platform): Map<string, ChannelEntry> => {
+  return new Map(getChannelEntries(config, platform).map(entry => [entry.name.toLowerCase(), entry]));
+};
+
+// --- APPLY CHANGES ---
+const applyPlatformChanges = async (platform: Platform, previous: ChannelsConfig, next: ChannelsConfig): Promise<void> => {
+  const platformLog = createLogger(getPlatform(platform).name);
+  const before = entriesByName(previous, platform);
+  const after = entriesByName(next, platform);
+
+  for (const [name, entry] of after) {
+    const previousEntry = before.get(name);
+    if (!previousEntry) {
+      try {
+        await addChannelSubscriptions(platform, entry);
+        platformLog.info(`Subscribed to added channel ${entry.name}`);
+      } catch (err) {
+        platformLog.error(`Failed to subscribe to added channel ${entry.name}: ${(err as Error).message}`);
+      }
+    } else if (JSON.stringify(previousEntry) !== JSON.stringify(entry)) {
+      // Settings such as webhooks changed, the subscriptions themselves stay as they are
+      const userId = findChannelId(platform, entry.name);
+      if (userId) registerChannel(platform, userId, entry);
+      platformLog.info(`Updated settings for channel ${entry.name}`);
+    }
+  }
+
+  for (const [name, entry] of before) {
+    if (after.has(name)) continue;
+    try {
+      const count = await removeChannelSubscriptions(platform, entry.name);
+      platformLog.info(`Unsubscribed from removed channel ${entry.name} (${count} subscription(s) deleted)`);
+    } catch (err) {
+      platformLog.error(`Failed to unsubscribe from removed channel ${entry.name}: ${(err as Error).message}`);
+    }
+  }
+};
+
+// --- RELOAD ---
+export const reloadChannels = (reason: string): Promise<void> => {
+  reloadQueue = reloadQueue.then(async () => {
+    let next: ChannelsConfig;
+    try {
+      next = loadChannelsConfig();
+    } catch (err) {
+      log.error(`Rejected channels.json reload (${reason}), keeping last good config: ${(err as Error).message}`);
+      return;
+    }
+
+    log.info(`Reloading channels.json (${reason})`);
+    const previous = getActiveConfig();
+    setActiveConfig(next);
+    for (const platform of PLATFORMS) {
+      await applyPlatformChanges(platform, previous, next);
+    }
+  });
+  return reloadQueue;
+};
+
+// Watch the data directory rather than the file itself, as editors often replace the file on save
+export const watchChannels = (): void => {
+  const channelsPath = getChannelsPath();
+  const fileName = path.basename(channelsPath);
+
+  fs.watch(path.dirname(channelsPath), (eventType, changedFile) => {
+    if (changedFile !== fileName) return;
+    if (debounceTimer) clearTimeout(debounceTimer);
+    debounceTimer = setTimeout(() => {
+      debounceTimer = null;
+      reloadChannels('file changed');
+    }, RELOAD_DEBOUNCE_MS);
+  });
+
+  process.on('SIGHUP', () => {
+    reloadChannels('SIGHUP');
+  });
+
+  log.info(`Watching ${channelsPath} for changes`);
+};
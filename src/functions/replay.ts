@@ -0,0 +1,72 @@
+import type { Platform } from './channels.js';
+import { readDataFile, writeDataFile } from './storage.js';
+
+const SEEN_MESSAGES_FILE = 'seen-messages.json';
+const MAX_SEEN_MESSAGES = 5000;
+
+// Seen message IDs keyed by platform and message ID, valued by the time they were first seen
+let seenMessages: Map<string, number> | null = null;
+
+const getMaxMessageAge = (): number => {
+  const seconds = Number(process.env.EVENTSUB_MAX_MESSAGE_AGE);
+  // Twitch recommends rejecting anything older than 10 minutes
+  return (Number.isFinite(seconds) && seconds > 0 ? seconds : 600) * 1000;
+};
+
+const loadSeenMessages = (): Map<string, number> => {
+  if (!seenMessages) {
+    const stored = readDataFile<Record<string, number>>(SEEN_MESSAGES_FILE, {});
+    seenMessages = new Map(Object.entries(stored));
+  }
+  return seenMessages;
+};
+
+// Drop expired entries, then the oldest ones if the store is still over capacity
+const pruneSeenMessages = (messages: Map<string, number>): void => {
+  const cutoff = Date.now() - getMaxMessageAge();
+  for (const [key, seenAt] of messages) {
+    if (seenAt < cutoff) messages.delete(key);
+  }
+  while (messages.size > MAX_SEEN_MESSAGES) {
+    const oldestKey = messages.keys().next().value;
+    if (oldestKey === undefined) break;
+    messages.delete(oldestKey);
+  }
+};
+
+// --- TIMESTAMP CHECK ---
+// Accepts RFC3339 timestamps as well as unix seconds
+export const parseMessageTimestamp = (timestamp: string): number => {
+  if (/^\d+$/.test(timestamp)) {
+    return Number(timestamp) * 1000;
+  }
+  return new Date(timestamp).getTime();
+};
+
+export const isMessageTooOld = (timestamp: string): boolean => {
+  const sentAt = parseMessageTimestamp(timestamp);
+  if (Number.isNaN(sentAt)) return true;
+  return Date.now() - sentAt > getMaxMessageAge();
+};
+
+// --- DUPLICATE SUPPRESSION ---
+// Returns true the first time a message ID is seen, false for any redelivery
+export const markMessageSeen = (platform: Platform, messageId: string): boolean => {
+  const messages = loadSeenMessages();
+  const key = `${platform}:${messageId}`;
+  pruneSeenMessages(messages);
+  if (messages.has(key)) {
+    return false;
+  }
+  messages.set(key, Date.now());
+  writeDataFile(SEEN_MESSAGES_FILE, Object.fromEntries(messages));
+  return true;
+};
+
+// Lets a redelivery through again, for messages whose events couldn't be stored
+export const forgetMessage = (platform: Platform, messageId: string): void => {
+  const messages = loadSeenMessages();
+  if (messages.delete(`${platform}:${messageId}`)) {
+    writeDataFile(SEEN_MESSAGES_FILE, Object.fromEntries(messages));
+  }
+};
@@ -0,0 +1,143 @@
+import { getChannel } from './channels.js';
+import type { Platform } from './channels.js';
+import { postWebhookMessage } from './discord.js';
+import { NO_MENTIONS, sanitizeText } from './mentions.js';
+import { TWITCH_SUBSCRIPTION_TYPES, createTwitchSubscription, listTwitchSubscriptions } from './auth/twitch/subscriptions.js';
+import type { TwitchSubscriptionType } from './auth/twitch/subscriptions.js';
+import { getPlatform } from './platforms/index.js';
+import { createLogger } from './logger.js';
+import { readDataFile, writeDataFile } from './storage.js';
+
+const CHANNEL_STATUS_FILE = 'channel-status.json';
+const MAX_REVOCATION_HISTORY = 10;
+const MAX_RECOVERY_ATTEMPTS = 5;
+const BASE_RECOVERY_DELAY_MS = 30 * 1000;
+
+// Twitch stops delivering after repeated callback failures; the subscription works again once recreated.
+// The other reasons (user_removed, authorization_revoked, version_removed) need someone to step in
+const RECOVERABLE_REVOCATION_REASONS = ['notification_failures_exceeded'];
+
+const log = createLogger('Twitch');
+const operatorLog = createLogger('Operator');
+
+// --- TYPES ---
+export interface RevocationRecord {
+  subscriptionId: string;
+  type: string;
+  reason: string;
+  revokedAt: string;
+}
+
+export interface ChannelStatus {
+  revocations: RevocationRecord[];
+  broken?: {
+    reason: string;
+    since: string;
+  };
+}
+
+let channelStatuses: Record<string, ChannelStatus> | null = null;
+
+const statusKey = (platform: Platform, userId: string): string => `${platform}:${userId}`;
+
+const loadChannelStatuses = (): Record<string, ChannelStatus> => {
+  if (!channelStatuses) {
+    channelStatuses = readDataFile<Record<string, ChannelStatus>>(CHANNEL_STATUS_FILE, {});
+  }
+  return channelStatuses;
+};
+
+const updateChannelStatus = (platform: Platform, userId: string, update: (status: ChannelStatus) => void): void => {
+  const statuses = loadChannelStatuses();
+  const key = statusKey(platform, userId);
+  const status = statuses[key] || { revocations: [] };
+  update(status);
+  statuses[key] = status;
+  writeDataFile(CHANNEL_STATUS_FILE, statuses);
+};
+
+// --- CHANNEL STATUS ---
+export const getChannelStatus = (platform: Platform, userId: string): ChannelStatus | undefined => {
+  return loadChannelStatuses()[statusKey(platform, userId)];
+};
+
+export const markChannelBroken = (platform: Platform, userId: string, reason: string): void => {
+  updateChannelStatus(platform, userId, status => {
+    status.broken = { reason, since: new Date().toISOString() };
+  });
+};
+
+export const clearChannelBroken = (platform: Platform, userId: string): void => {
+  if (!getChannelStatus(platform, userId)?.broken) return;
+  updateChannelStatus(platform, userId, status => {
+    delete status.broken;
+  });
+  createLogger(getPlatform(platform).name).info(`Channel ${userId} has its subscriptions back`, { userId });
+};
+
+// --- OPERATOR ALERTS ---
+// Problems that need a human go to ADMIN_DISCORD_WEBHOOK_URL, kept apart from the public alert channels
+export const sendOperatorAlert = async (text: string): Promise<void> => {
+  const webhookUrl = process.env.ADMIN_DISCORD_WEBHOOK_URL;
+  if (!webhookUrl) {
+    operatorLog.warn(`ADMIN_DISCORD_WEBHOOK_URL is not set, alert not sent: ${text}`);
+    return;
+  }
+  try {
+    await postWebhookMessage(webhookUrl, { content: text.slice(0, 2000), allowed_mentions: NO_MENTIONS });
+  } catch (err) {
+    operatorLog.error('Failed to send operator alert', { err });
+  }
+};
+
+// --- TWITCH REVOCATIONS ---
+const describeChannel = (userId: string): string => {
+  const name = getChannel('twitch', userId)?.name;
+  return name ? `${name} (${userId})` : userId;
+};
+
+const breakChannel = async (userId: string, type: string, reason: string): Promise<void> => {
+  markChannelBroken('twitch', userId, `${type}: ${reason}`);
+  log.error(`Channel ${describeChannel(userId)} marked as broken: ${type} subscription revoked (${reason})`, { userId, type, reason });
+  await sendOperatorAlert(`**Twitch subscription revoked** for ${sanitizeText(describeChannel(userId))}\nSubscription: ${type}\nReason: ${reason}\nAlerts for this channel are paused until it is fixed.`);
+};
+
+const recoverSubscription = async (userId: string, type: TwitchSubscriptionType, reason: string, attempt = 1): Promise<void> => {
+  // The channel may have been untracked, or reconciled, since the revocation
+  if (!getChannel('twitch', userId)) return;
+
+  try {
+    const enabled = await listTwitchSubscriptions('enabled');
+    if (enabled.some(sub => sub.type === type && sub.condition.broadcaster_user_id === userId)) return;
+    await createTwitchSubscription(type, userId);
+    log.info(`Recreated ${type} subscription for ${describeChannel(userId)} after revocation`);
+  } catch (err) {
+    if (attempt >= MAX_RECOVERY_ATTEMPTS) {
+      await breakChannel(userId, type, `${reason}, recreating failed ${attempt} times: ${(err as Error).message}`);
+      return;
+    }
+    const delay = BASE_RECOVERY_DELAY_MS * 2 ** (attempt - 1);
+    log.warn(`Failed to recreate ${type} for ${describeChannel(userId)} (attempt ${attempt}/${MAX_RECOVERY_ATTEMPTS}), retrying in ${delay / 1000}s: ${(err as Error).message}`);
+    setTimeout(() => recoverSubscription(userId, type, reason, attempt + 1), delay);
+  }
+};
+
+export const handleTwitchRevocation = async (subscription: EventSubSubscription): Promise<void> => {
+  const userId = subscription.condition.broadcaster_user_id;
+  const reason = subscription.status;
+  log.warn(`Subscription ${subscription.id} (${subscription.type}) for ${describeChannel(userId)} revoked: ${reason}`, { userId, type: subscription.type, reason });
+
+  updateChannelStatus('twitch', userId, status => {
+    status.revocations = [
+      ...status.revocations,
+      { subscriptionId: subscription.id, type: subscription.type, reason, revokedAt: new Date().toISOString() }
+    ].slice(-MAX_REVOCATION_HISTORY);
+  });
+
+  if (!TWITCH_SUBSCRIPTION_TYPES.includes(subscription.type as TwitchSubscriptionType)) return;
+  if (RECOVERABLE_REVOCATION_REASONS.includes(reason)) {
+    setTimeout(() => recoverSubscription(userId, subscription.type as TwitchSubscriptionType, reason), BASE_RECOVERY_DELAY_MS);
+  } else {
+    await breakChannel(userId, subscription.type, reason);
+  }
+};
@@ -1,111 +1,124 @@
 import express from 'express';
 import type { Express, Request, Response } from 'express';
-import { sendMessage } from './message.js';
-import { TwitchApiClient } from './auth/twitch/auth.js';
-import { KickApiClient } from './auth/kick/auth.js';
+import { getPlatforms } from './platforms/index.js';
+import type { WebhookRequest, WebhookResponse } from './platforms/types.js';
+import { enqueueEvents, processOutbox } from './outbox.js';
+import { forgetMessage } from './replay.js';
+import { createApiRouter } from './api.js';
+import { handleInteraction, verifyDiscordSignature } from './interactions.js';
+import { renderMetrics, thumbnailProxyRequests, webhookRequests } from './metrics.js';
+import { getLiveness, getReadiness } from './health.js';
+import { createLogger, withCorrelationId } from './logger.js';
+import crypto from 'crypto';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import fs from 'fs';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+const log = createLogger('Discord');
+
+const toWebhookRequest = (req: Request): WebhookRequest => ({
+  headers: req.headers,
+  query: req.query,
+  // Requests without a matching content type are left unparsed
+  body: Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0)
+});
+
+const recordWebhookOutcome = (platform: string, { status, outcome }: WebhookResponse): void => {
+  webhookRequests.inc({ platform, outcome: outcome ?? (status >= 400 ? 'rejected' : 'ignored') });
+};
+
+// Metrics are public unless METRICS_TOKEN is set
+const isMetricsAuthorized = (req: Request): boolean => {
+  const token = process.env.METRICS_TOKEN;
+  if (!token) return true;
+  const expected = Buffer.from(token);
+  const actual = Buffer.from(req.headers.authorization?.replace(/^Bearer\s+/i, '') || '');
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+const sendWebhookResponse = (res: Response, { status, body }: WebhookResponse): void => {
+  if (body === undefined) {
+    res.status(status).end();
+  } else {
+    res.status(status).type('text/plain').send(body);
+  }
+};
 
 // --- EXPRESS SERVER SETUP ---
 export const createServer = (): Express => {
   const app = express();
 
   app.use(express.raw({
-    type: 'application/json'
+    type: ['application/json', 'application/atom+xml', 'application/xml', 'text/xml']
   }));
 
   app.use('/assets', express.static(path.resolve(__dirname, '../../public')));
 
-  // --- TWITCH EVENTSUB WEBHOOK ---
-  app.post('/events/twitch', async (req: Request, res: Response) => {
-    const { headers } = req;
-
-    const messageId = headers['twitch-eventsub-message-id'] as string;
-    const timestamp = headers['twitch-eventsub-message-timestamp'] as string;
-    const providedSignature = headers['twitch-eventsub-message-signature'] as string;
-
-    if (!messageId || !timestamp || !providedSignature) {
-      console.warn('Missing required headers for signature verification');
-      return res.status(400).end();
-    }
-    const client = await TwitchApiClient.getInstance();
-    const isValid = await client.verifyTwitchSignature(messageId, timestamp, req.body, providedSignature);
-
-    if (!isValid) {
-      console.warn('Invalid signature for Twitch EventSub request');
-      return res.status(403).end();
-    }
-
-    const body = JSON.parse(req.body.toString());
-
-    if (headers['twitch-eventsub-message-type'] === 'webhook_callback_verification') {
-      const challenge = body.challenge;
-      return res.status(200).send(challenge);
-    }
-    if (headers['twitch-eventsub-message-type'] === 'revocation') {
-      console.log('Revocation request:', body.subscription.id);
-      return res.status(200).end();
-    }
-    if (headers['twitch-eventsub-message-type'] === 'notification') {
-      const broadcasterId = body.event.broadcaster_user_id;
-      console.log(`[Twitch] Received notification for broadcaster ID: ${broadcasterId}`);
-      res.status(200).end();
-      sendMessage('twitch', broadcasterId);
-      return;
+  // --- PLATFORM WEBHOOKS ---
+  for (const platform of getPlatforms()) {
+    app.post(`/events/${platform.id}`, async (req: Request, res: Response) => {
+      // Platforms without a message ID header get a random one so the event can still be followed in the logs
+      const messageId = platform.messageIdHeader ? req.headers[platform.messageIdHeader] : undefined;
+      const correlationId = typeof messageId === 'string' && messageId ? messageId : crypto.randomUUID();
+
+      await withCorrelationId(correlationId, async () => {
+        const result = await platform.handleWebhook(toWebhookRequest(req));
+        try {
+          enqueueEvents(platform.id, result.events || []);
+        } catch (err) {
+          // An error status makes the platform deliver the message again
+          createLogger(platform.name).error('Failed to store webhook events in the outbox, asking for redelivery', { err });
+          if (typeof messageId === 'string' && messageId) forgetMessage(platform.id, messageId);
+          const failed: WebhookResponse = { status: 503 };
+          recordWebhookOutcome(platform.id, failed);
+          sendWebhookResponse(res, failed);
+          return;
+        }
+        recordWebhookOutcome(platform.id, result);
+        sendWebhookResponse(res, result);
+      });
+      processOutbox();
+    });
+
+    app.get(`/events/${platform.id}`, (req: Request, res: Response) => {
+      const result = platform.handleVerification?.(toWebhookRequest(req));
+      if (result) {
+        recordWebhookOutcome(platform.id, result);
+        return sendWebhookResponse(res, result);
+      }
+      res.status(200).send(`${platform.name} webhook endpoint is running.`);
+    });
+  }
+
+  // --- DISCORD INTERACTIONS ---
+  app.post('/interactions', (req: Request, res: Response) => {
+    const signature = req.headers['x-signature-ed25519'] as string;
+    const timestamp = req.headers['x-signature-timestamp'] as string;
+
+    if (!signature || !timestamp || !Buffer.isBuffer(req.body)) {
+      log.warn('Missing required headers for interaction signature verification');
+      return res.status(401).end();
     }
-    if (headers['twitch-eventsub-message-type']) {
-      console.warn('[Twitch] Received unhandled Twitch EventSub message:', headers['twitch-eventsub-message-type']);
-      return res.status(200).end();
+    if (!verifyDiscordSignature(timestamp, req.body, signature)) {
+      log.warn('Invalid signature for interaction request');
+      return res.status(401).end();
     }
-    console.log('[Twitch] Unknown message type');
-    return res.status(400).end();
-  });
 
-  // --- KICK EVENTSUB WEBHOOK ---
-  app.post('/events/kick', async (req: Request, res: Response) => {
-    const { headers } = req;
-
-    const messageId = headers['kick-event-message-id'] as string;
-    const timestamp = headers['kick-event-message-timestamp'] as string;
-    const providedSignature = headers['kick-event-signature'] as string;
-
-    if (!messageId || !timestamp || !providedSignature) {
-      console.warn('Missing required headers for Kick signature verification');
+    let interaction;
+    try {
+      interaction = JSON.parse(req.body.toString());
+    } catch {
+      log.warn('Interaction request body is not valid JSON');
       return res.status(400).end();
     }
-    const client = await KickApiClient.getInstance();
-    const isValid = client.verifyKickSignature(messageId, timestamp, req.body.toString(), providedSignature);
-
-    if (!isValid) {
-      console.warn('Invalid signature for Kick EventSub request');
-      return res.status(403).end();
-    }
-
-    const body: KickLivestreamStatusUpdateEvent = JSON.parse(req.body.toString());
-    const eventType = headers['kick-event-type'];
-
-    if (eventType === 'livestream.status.updated' && body.is_live === true) {
-      const broadcasterId = body.broadcaster.user_id;
-      if (broadcasterId) {
-        console.log(`[Kick] Received Kick notification for broadcaster ID: ${broadcasterId}`);
-        res.status(200).end();
-        sendMessage('kick', broadcasterId.toString());
-        return;
-      }
-    } else if (eventType === 'livestream.status.updated' && body.is_live === false) {
-      // Stream offline, do nothing
-      return res.status(200).end();
-    }
-
-    console.log('[Kick] Received unhandled Kick EventSub message type:', eventType);
-    return res.status(200).end();
+    return res.status(200).json(handleInteraction(interaction));
   });
 
+  // --- ADMIN API ---
+  app.use('/api', createApiRouter());
+
   // --- PROXY ENDPOINTS ---
   app.get('/proxy/kick/thumbnail', async (req: Request, res: Response) => {
     const thumbnailUrl = req.query.url as string;
@@ -124,30 +137,42 @@ export const createServer = (): Express => {
 
       if (headResponse.ok) {
         // Image is available, redirect with long cache (1 hour)
+        thumbnailProxyRequests.inc({ result: 'hit' });
         res.setHeader('Cache-Control', 'public, max-age=3600');
         return res.redirect(302, thumbnailUrl);
       } else {
         // Image might be 403, redirect to fallback with short cache (1 minute)
+        thumbnailProxyRequests.inc({ result: 'fallback' });
         res.setHeader('Cache-Control', 'public, max-age=60');
         return res.redirect(302, '/assets/starting_soon.png');
       }
     } catch (error) {
-      console.error('Error proxying thumbnail:', error);
+      createLogger('Proxy').error('Error proxying thumbnail', { err: error });
+      thumbnailProxyRequests.inc({ result: 'error' });
       res.setHeader('Cache-Control', 'public, max-age=60');
       return res.redirect(302, '/assets/starting_soon.png');
     }
   });
 
   // --- HEALTH CHECK & ROOT ---
-  app.get('/events/twitch', (req: Request, res: Response) => {
-    res.status(200).send('Twitch EventSub endpoint is running.');
+  app.get('/health', (req: Request, res: Response) => {
+    res.status(200).send('OK');
   });
-  app.get('/events/kick', (req: Request, res: Response) => {
-    res.status(200).send('Kick EventSub endpoint is running.');
+
+  app.get('/health/live', (req: Request, res: Response) => {
+    res.status(200).json(getLiveness());
   });
 
-  app.get('/health', (req: Request, res: Response) => {
-    res.status(200).send('OK');
+  app.get('/health/ready', async (req: Request, res: Response) => {
+    const readiness = await getReadiness();
+    res.status(readiness.ready ? 200 : 503).json(readiness);
+  });
+
+  app.get('/metrics', (req: Request, res: Response) => {
+    if (!isMetricsAuthorized(req)) {
+      return res.status(401).end();
+    }
+    res.status(200).type('text/plain; version=0.0.4').send(renderMetrics());
   });
 
   app.get('/', (req: Request, res: Response) => {
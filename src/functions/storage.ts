@@ -0,0 +1,40 @@
+import fs from 'fs';
+import path from 'path';
+import { createLogger } from './logger.js';
+
+const log = createLogger('Storage');
+
+// --- DATA DIRECTORY PERSISTENCE ---
+export const getDataPath = (fileName: string): string => {
+  const dataDir = process.env.DATA_DIR || './data';
+  return path.resolve(process.cwd(), dataDir, fileName);
+};
+
+export const readDataFile = <T>(fileName: string, fallback: T): T => {
+  const filePath = getDataPath(fileName);
+  if (!fs.existsSync(filePath)) return fallback;
+  try {
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+  } catch (err) {
+    log.warn(`Failed to read ${filePath}, using defaults`, { err });
+    return fallback;
+  }
+};
+
+// Write via a temp file so a crash mid-write never leaves a truncated file behind.
+// Throws when the file can't be written, for data that must not be lost silently
+export const writeDataFileOrThrow = (fileName: string, data: unknown): void => {
+  const filePath = getDataPath(fileName);
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tempPath = `${filePath}.tmp`;
+  fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+  fs.renameSync(tempPath, filePath);
+};
+
+export const writeDataFile = (fileName: string, data: unknown): void => {
+  try {
+    writeDataFileOrThrow(fileName, data);
+  } catch (err) {
+    log.error(`Failed to write ${getDataPath(fileName)}`, { err });
+  }
+};
@@ -0,0 +1,193 @@
+import { PLATFORMS } from './channels.js';
+import type { ChannelEntry, Platform } from './channels.js';
+import type { DiscordMessage } from './discord.js';
+import type { NormalizedStreamData } from './message.js';
+import { buildAllowedMentions, buildMentionText, sanitizeText } from './mentions.js';
+import type { MentionsConfig } from './mentions.js';
+import { getPlatform } from './platforms/index.js';
+
+// --- TYPES ---
+export interface AlertTemplateField {
+  name: string;
+  value: string;
+  inline?: boolean;
+}
+
+export interface AlertTemplate {
+  content?: string;
+  title?: string;
+  description?: string;
+  fields?: AlertTemplateField[];
+  color?: number | string;
+  footer?: string;
+  username?: string;
+  avatarUrl?: string;
+}
+
+// Global templates under "default", overridden per platform
+export type AlertTemplates = { default?: AlertTemplate } & Partial<Record<Platform, AlertTemplate>>;
+
+export type TemplateVariables = NormalizedStreamData & {
+  platform: Platform;
+  startTime: string;
+  startTimestamp: string;
+  mentions: string;
+};
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+export const TEMPLATE_PLACEHOLDERS: (keyof TemplateVariables)[] = [
+  'streamTitle',
+  'streamCategory',
+  'username',
+  'streamUrl',
+  'streamThumbnail',
+  'userThumbnail',
+  'offlineImage',
+  'platform',
+  'startTime',
+  'startTimestamp',
+  'mentions'
+];
+
+// Matches the alert format used before templates were configurable
+const BUILT_IN_TEMPLATE: AlertTemplate = {
+  content: '{username} just went live at {streamUrl} !',
+  title: '{streamTitle}',
+  description: '',
+  fields: [{ name: 'Category', value: '{streamCategory}', inline: false }]
+};
+
+// --- VALIDATION ---
+const parseColor = (color: number | string): number | null => {
+  if (typeof color === 'number') return Number.isInteger(color) && color >= 0 ? color : null;
+  const match = /^#?([0-9a-f]{6})$/i.exec(color);
+  return match ? parseInt(match[1], 16) : null;
+};
+
+const collectTemplateStrings = (template: AlertTemplate): string[] => {
+  const strings = [template.content, template.title, template.description, template.footer, template.username, template.avatarUrl];
+  for (const field of template.fields || []) {
+    strings.push(field.name, field.value);
+  }
+  return strings.filter((value): value is string => typeof value === 'string');
+};
+
+const validateTemplate = (template: AlertTemplate, source: string): void => {
+  if (!template || typeof template !== 'object' || Array.isArray(template)) {
+    throw new Error(`Template for ${source} must be an object`);
+  }
+  if (template.fields !== undefined && !Array.isArray(template.fields)) {
+    throw new Error(`Template fields for ${source} must be an array`);
+  }
+  if (template.color !== undefined && parseColor(template.color) === null) {
+    throw new Error(`Template color for ${source} must be a number or a hex string like "#9146FF"`);
+  }
+  for (const value of collectTemplateStrings(template)) {
+    for (const [, placeholder] of value.matchAll(PLACEHOLDER_PATTERN)) {
+      if (!TEMPLATE_PLACEHOLDERS.includes(placeholder as keyof TemplateVariables)) {
+        throw new Error(`Unknown placeholder {${placeholder}} in template for ${source}. Available placeholders: ${TEMPLATE_PLACEHOLDERS.map(name => `{${name}}`).join(', ')}`);
+      }
+    }
+  }
+};
+
+export const validateTemplates = (templates: AlertTemplates | undefined, channels: Partial<Record<Platform, ChannelEntry[]>>): void => {
+  if (templates !== undefined) {
+    if (!templates || typeof templates !== 'object' || Array.isArray(templates)) {
+      throw new Error('Channels config "templates" must be an object');
+    }
+    // A misspelled platform would otherwise be ignored without a word
+    const keys = ['default', ...PLATFORMS];
+    for (const [key, template] of Object.entries(templates)) {
+      if (!keys.includes(key)) {
+        throw new Error(`Unknown template key "${key}". Available keys: ${keys.join(', ')}`);
+      }
+      validateTemplate(template, key === 'default' ? 'all channels' : key);
+    }
+  }
+  for (const [platform, entries] of Object.entries(channels)) {
+    for (const entry of entries || []) {
+      if (entry.template !== undefined) {
+        validateTemplate(entry.template, `${platform} channel ${entry.name}`);
+      }
+    }
+  }
+};
+
+// --- RENDERING ---
+export const renderTemplateString = (value: string, variables: TemplateVariables): string => {
+  return value.replace(PLACEHOLDER_PATTERN, (placeholder, name: keyof TemplateVariables) => {
+    return name in variables ? String(variables[name] ?? '') : placeholder;
+  });
+};
+
+// Later templates win key by key: built-in, global, platform, then channel
+export const resolveTemplate = (platform: Platform, templates?: AlertTemplates, entry?: ChannelEntry): AlertTemplate => {
+  const { branding } = getPlatform(platform);
+  return {
+    ...BUILT_IN_TEMPLATE,
+    color: branding.color,
+    username: branding.username,
+    avatarUrl: `https://${process.env.HOSTNAME}/assets/${branding.icon}`,
+    ...templates?.default,
+    ...templates?.[platform],
+    ...entry?.template
+  };
+};
+
+// Streamer-controlled text is escaped so it can't inject formatting or pings
+export const createTemplateVariables = (platform: Platform, data: NormalizedStreamData, startedAt: string, mentions?: MentionsConfig): TemplateVariables => ({
+  ...data,
+  streamTitle: sanitizeText(data.streamTitle),
+  streamCategory: sanitizeText(data.streamCategory),
+  username: sanitizeText(data.username),
+  platform,
+  startTime: startedAt,
+  startTimestamp: `<t:${Math.floor(new Date(startedAt).getTime() / 1000)}:f>`,
+  mentions: buildMentionText(mentions)
+});
+
+// Mentions only ping from the message content, so they lead it unless the template places them
+const renderContent = (template: AlertTemplate, variables: TemplateVariables): string => {
+  const content = renderTemplateString(template.content ?? '', variables);
+  if (!variables.mentions || template.content?.includes('{mentions}')) {
+    return content;
+  }
+  return `${variables.mentions} ${content}`.trim();
+};
+
+export const buildAlertMessage = (template: AlertTemplate, data: NormalizedStreamData, variables: TemplateVariables, imageUrl: string, mentions?: MentionsConfig): DiscordMessage => {
+  const render = (value: string | undefined) => renderTemplateString(value ?? '', variables);
+  return {
+    content: renderContent(template, variables),
+    type: 'rich',
+    tts: false,
+    embeds: [
+      {
+        description: render(template.description),
+        fields: (template.fields || []).map(field => ({
+          name: render(field.name),
+          value: render(field.value),
+          inline: field.inline ?? false
+        })),
+        title: render(template.title),
+        // Author names are shown as plain text, so they use the unescaped name
+        author: {
+          name: data.username,
+          icon_url: data.userThumbnail
+        },
+        url: variables.streamUrl,
+        image: {
+          url: imageUrl
+        },
+        ...(template.footer ? { footer: { text: render(template.footer) } } : {}),
+        timestamp: new Date().toISOString(),
+        color: parseColor(template.color ?? 0) ?? 0
+      }
+    ],
+    username: render(template.username),
+    avatar_url: render(template.avatarUrl),
+    allowed_mentions: buildAllowedMentions(mentions)
+  };
+};
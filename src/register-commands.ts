@@ -0,0 +1,28 @@
+import dotenv from 'dotenv';
+import path from 'path';
+import { registerCommands } from './functions/interactions.js';
+
+// -- SETUP ENVIRONMENT VARIABLES --
+if (process.env.NODE_ENV === 'development') {
+  dotenv.config({ path: path.resolve(process.cwd(), '.env.dev'), quiet: true });
+} else {
+  dotenv.config({ quiet: true });
+}
+
+// -- REGISTER SLASH COMMANDS --
+const applicationId = process.env.DISCORD_APPLICATION_ID;
+const botToken = process.env.DISCORD_BOT_TOKEN;
+const guildId = process.env.DISCORD_GUILD_ID;
+
+if (!applicationId || !botToken) {
+  console.error('Missing one or more required environment variables: DISCORD_APPLICATION_ID, DISCORD_BOT_TOKEN');
+  process.exit(1);
+}
+
+try {
+  await registerCommands(applicationId, botToken, guildId);
+  console.log(`Registered slash commands ${guildId ? `for guild ${guildId}` : 'globally'}`);
+} catch (err) {
+  console.error('Failed to register slash commands:', (err as Error).message);
+  process.exit(1);
+}
@@ -0,0 +1,48 @@
+import dotenv from 'dotenv';
+import path from 'path';
+
+// -- SETUP ENVIRONMENT VARIABLES --
+if (process.env.NODE_ENV === 'development') {
+  dotenv.config({ path: path.resolve(process.cwd(), '.env.dev'), quiet: true });
+} else {
+  dotenv.config({ quiet: true });
+}
+
+// -- ROTATE EVENTSUB SECRET --
+// The running bot holds the secret in memory, so the rotation happens there through the admin API
+const token = process.env.ADMIN_API_TOKEN;
+if (!token) {
+  console.error('Missing required environment variable: ADMIN_API_TOKEN');
+  process.exit(1);
+}
+
+const serverUrl = process.env.NODE_ENV === 'development' ? `http://${process.env.HOSTNAME || 'localhost'}:${process.env.PORT || 3000}` : `https://${process.env.HOSTNAME}`;
+
+try {
+  const response = await fetch(`${serverUrl}/api/twitch/secret/rotate`, {
+    method: 'POST',
+    headers: { Authorization: `Bearer ${token}` }
+  });
+  // Error pages from a proxy, or a 401 without a body, aren't JSON
+  const isJson = response.headers.get('content-type')?.includes('application/json');
+  if (!response.ok) {
+    const body = isJson ? await response.json().catch(() => null) : null;
+    console.error(`Failed to rotate the EventSub secret: ${body?.error?.message ?? `${response.status} ${response.statusText}`}`);
+    process.exit(1);
+  }
+  if (!isJson) {
+    console.error(`Unexpected response from the bot (${response.headers.get('content-type') ?? 'no content type'})`);
+    process.exit(1);
+  }
+  const body = await response.json();
+  console.log(`Rotated the EventSub secret, ${body.recreated} subscription(s) recreated`);
+  for (const error of body.errors) {
+    console.warn(error);
+  }
+  if (body.reconciled) {
+    console.warn('Some subscriptions could not be recreated or removed, the tracked channels were reconciled');
+  }
+} catch (err) {
+  console.error('Failed to reach the bot:', (err as Error).message);
+  process.exit(1);
+}